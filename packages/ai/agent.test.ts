@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { z } from "zod";
+import { defaultGeometry, type BrowserTools } from "@llm-browser-agent/tools";
+import { runAgent } from "./agent.ts";
+import {
+  createScriptedProvider,
+  type ScriptedTurn,
+} from "./providers/index.ts";
+import type { ToolMode } from "./prompt.ts";
+
+// A single tool that echoes its text back, so results can be found in the chat
+function createEchoTools(): BrowserTools {
+  return {
+    definitions: [
+      {
+        type: "function",
+        function: {
+          name: "echo",
+          description: "Echo the text back",
+          parameters: {
+            type: "object",
+            properties: { text: { type: "string" } },
+            required: ["text"],
+          },
+        },
+      },
+    ],
+    schemas: { echo: z.object({ text: z.string() }) },
+    implementations: {
+      echo: async (args) => ({ message: `echo: ${args.text}` }),
+    },
+    geometry: defaultGeometry,
+  };
+}
+
+// A call to echo in each protocol: JSON in the reply, or a function call
+function echoCall(mode: ToolMode, text: unknown, id = "call_1"): ScriptedTurn {
+  return mode === "text"
+    ? JSON.stringify({ tool: "echo", args: { text } })
+    : { content: "", toolCalls: [{ id, name: "echo", args: { text } }] };
+}
+
+async function run(
+  mode: ToolMode,
+  turns: ScriptedTurn[],
+  options: { maxRounds?: number; maxRepairAttempts?: number } = {}
+) {
+  const provider = createScriptedProvider(turns);
+  const result = await runAgent({
+    model: await provider.getModel(),
+    tools: createEchoTools(),
+    prompt: "Say hello",
+    toolMode: mode,
+    ...options,
+  });
+  return { provider, result };
+}
+
+// The loop logs every round and streams replies to stdout
+let log: ReturnType<typeof spyOn>;
+let write: ReturnType<typeof spyOn>;
+beforeEach(() => {
+  log = spyOn(console, "log").mockImplementation(() => {});
+  write = spyOn(process.stdout, "write").mockImplementation(() => true);
+});
+afterEach(() => {
+  log.mockRestore();
+  write.mockRestore();
+});
+
+for (const mode of ["text", "native"] as const) {
+  describe(`runAgent in ${mode} mode`, () => {
+    test("returns the final answer", async () => {
+      const { result } = await run(mode, ["Hello there."]);
+      expect(result.stopReason).toBe("answer");
+      expect(result.answer).toBe("Hello there.");
+      expect(result.rounds).toBe(1);
+    });
+
+    test("puts a tool's result in the chat for the next round", async () => {
+      const { provider, result } = await run(mode, [
+        echoCall(mode, "hi"),
+        "Done.",
+      ]);
+      expect(result.stopReason).toBe("answer");
+      expect(result.rounds).toBe(2);
+
+      const secondRequest = provider.calls[1]!.messages;
+      const toolResult =
+        mode === "text"
+          ? secondRequest.find(
+              (message) => message.role === "user" && message.content.includes("echo: hi")
+            )
+          : secondRequest.find(
+              (message) => message.role === "tool" && message.toolCallId === "call_1"
+            );
+      expect(toolResult?.content).toContain("echo: hi");
+    });
+
+    test("stops after too many malformed calls in a row", async () => {
+      const { provider, result } = await run(
+        mode,
+        Array.from({ length: 5 }, () => echoCall(mode, { not: "a string" })),
+        { maxRepairAttempts: 2 }
+      );
+      expect(result.stopReason).toBe("malformedToolCalls");
+      expect(result.rounds).toBe(3);
+      expect(provider.calls).toHaveLength(3);
+      // Every malformed call is answered with the validation error
+      const lastRequest = provider.calls[2]!.messages;
+      expect(lastRequest.at(-1)?.content).toContain("Invalid arguments for echo");
+    });
+
+    test("a valid call resets the malformed count", async () => {
+      const bad = echoCall(mode, 5);
+      const { result } = await run(
+        mode,
+        [bad, bad, echoCall(mode, "ok"), bad, bad, "Done."],
+        { maxRepairAttempts: 2 }
+      );
+      expect(result.stopReason).toBe("answer");
+      expect(result.rounds).toBe(6);
+    });
+
+    test("stops at maxRounds", async () => {
+      const { provider, result } = await run(
+        mode,
+        Array.from({ length: 5 }, (_, i) => echoCall(mode, `round ${i + 1}`)),
+        { maxRounds: 2 }
+      );
+      expect(result.stopReason).toBe("maxRounds");
+      expect(result.rounds).toBe(2);
+      expect(result.answer).toBeUndefined();
+      expect(provider.calls).toHaveLength(2);
+    });
+  });
+}
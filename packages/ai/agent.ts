@@ -0,0 +1,378 @@
+import type { BrowserTools, ToolResult } from "@llm-browser-agent/tools";
+import {
+  createContextManager,
+  type ContextManager,
+  type ContextPolicy,
+} from "./context.ts";
+import { buildSystemPrompt, type ToolMode } from "./prompt.ts";
+import type {
+  ChatMessage,
+  ChatModel,
+  ModelResponse,
+  RespondOptions,
+} from "./providers/index.ts";
+import {
+  checkCitations,
+  createSourceLedger,
+  formatSourceNote,
+  type CitationCheck,
+  type SourceEntry,
+  type SourceLedger,
+} from "./sources.ts";
+import {
+  formatRepairMessage,
+  parseReply,
+  validateToolCall,
+} from "./tool-call-parser.ts";
+import { TRACE_FORMAT_VERSION, type TraceRecorder } from "./trace.ts";
+
+export interface AgentOptions {
+  model: ChatModel;
+  tools: BrowserTools;
+  prompt: string;
+  toolMode?: ToolMode;
+  maxRounds?: number;
+  // Consecutive malformed tool calls tolerated before the run is stopped
+  maxRepairAttempts?: number;
+  // Record the run as a trace (see trace.ts)
+  trace?: TraceRecorder;
+  // Limits for how much of the chat is sent to the model (see context.ts)
+  context?: Partial<ContextPolicy>;
+}
+
+export type StopReason = "answer" | "maxRounds" | "malformedToolCalls";
+
+export interface AgentResult {
+  // The model's final answer, only set when stopReason is "answer"
+  answer?: string;
+  // How the answer's citations map to the sources, only set with the answer
+  citations?: CitationCheck;
+  stopReason: StopReason;
+  rounds: number;
+  // Every page opened during the run, numbered for citation
+  sources: SourceEntry[];
+  chat: ChatMessage[];
+}
+
+// What a single round produced
+type RoundOutcome =
+  | { kind: "final"; answer: string }
+  | { kind: "toolCalls" }
+  | { kind: "malformed" };
+
+// State shared by the rounds of one run
+interface AgentRun {
+  model: ChatModel;
+  tools: BrowserTools;
+  chat: ChatMessage[];
+  context: ContextManager;
+  sources: SourceLedger;
+  trace?: TraceRecorder;
+  // 1-based number of the current round
+  round: number;
+  // Number of chat messages already written to the trace
+  tracedMessages: number;
+}
+
+// Ask the model for the next reply, recording the request and response in the trace
+async function requestReply(
+  run: AgentRun,
+  options: RespondOptions
+): Promise<ModelResponse> {
+  const { trace, chat, round } = run;
+  const { messages, usage } = await run.context.prepare(chat);
+  if (usage.overBudget) {
+    console.log(
+      `\n    [Context over budget: ~${usage.estimatedTokens} of ${usage.contextLength} tokens after every reduction]`
+    );
+  }
+  if (trace) {
+    await trace.record({
+      type: "model.request",
+      round,
+      startIndex: run.tracedMessages,
+      messages: await trace.traceMessages(chat.slice(run.tracedMessages)),
+      context: usage,
+    });
+    run.tracedMessages = chat.length;
+  }
+
+  const startedAt = Date.now();
+  const response = await run.model.respond(messages, {
+    ...options,
+    onFragment: (text) => process.stdout.write(text),
+  });
+
+  await trace?.record({
+    type: "model.response",
+    round,
+    content: response.content,
+    toolCalls: response.toolCalls,
+    durationMs: Date.now() - startedAt,
+  });
+  return response;
+}
+
+// Execute a tool through the createBrowserTools implementations
+async function executeTool(
+  run: AgentRun,
+  toolName: string,
+  args: Record<string, unknown>,
+  source: ToolMode,
+  callId?: string
+): Promise<ToolResult> {
+  const { trace, round } = run;
+  console.log(`  [Tool: ${toolName}]`);
+  console.log(`    Args: ${JSON.stringify(args)}`);
+  await trace?.record({
+    type: "tool.call",
+    round,
+    source,
+    callId,
+    tool: toolName,
+    args,
+  });
+
+  const startedAt = Date.now();
+  let result: ToolResult;
+  // Arguments have been validated against tools.schemas by the caller
+  const implementation = run.tools.implementations[toolName];
+  if (!implementation) {
+    result = { message: `Unknown tool: ${toolName}` };
+  } else {
+    try {
+      const output = await implementation(args);
+      result = typeof output === "string" ? { message: output } : output;
+      const source = run.sources.record(toolName, result);
+      if (source) {
+        result = {
+          ...result,
+          message: `${result.message}\n\n${formatSourceNote(source)}`,
+        };
+      }
+    } catch (error) {
+      result = {
+        message: `Tool ${toolName} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      };
+    }
+  }
+
+  for (const decision of result.policy ?? []) {
+    if (!decision.allowed) {
+      console.log(
+        `    [Policy refused] ${decision.action} ${decision.target} (${decision.rule})`
+      );
+    }
+  }
+
+  if (trace) {
+    await trace.record({
+      type: "tool.result",
+      round,
+      callId,
+      tool: toolName,
+      message: result.message,
+      url: result.url,
+      screenshot: result.image && (await trace.saveImage(result.image)),
+      elements: result.elements,
+      policy: result.policy,
+      durationMs: Date.now() - startedAt,
+    });
+  }
+  return result;
+}
+
+/**
+ * Text protocol round: the model writes a JSON tool call in its reply and the
+ * result comes back as a user message. A malformed call is answered with an
+ * error asking for a corrected call instead of ending the run.
+ */
+async function runTextRound(run: AgentRun): Promise<RoundOutcome> {
+  const { chat, tools } = run;
+  const response = await requestReply(run, {});
+
+  const content = response.content;
+  chat.push({ role: "assistant", content });
+
+  const reply = parseReply(content, tools.schemas);
+  if (reply.kind === "final") {
+    return { kind: "final", answer: reply.content };
+  }
+  if (reply.kind === "malformed") {
+    console.log(`\n    [Malformed tool call] ${reply.errors.join(" | ")}`);
+    await run.trace?.record({
+      type: "tool.malformed",
+      round: run.round,
+      errors: reply.errors,
+    });
+    chat.push({ role: "user", content: formatRepairMessage(reply.errors) });
+    return { kind: "malformed" };
+  }
+
+  const { call, ignored } = reply;
+  const result = await executeTool(run, call.tool, call.args, "text");
+  let message = result.message;
+  if (ignored > 0) {
+    message += `\n\nNote: only the first tool call was executed; ${ignored} more ${
+      ignored === 1 ? "was" : "were"
+    } ignored. Send one tool call per response.`;
+  }
+  console.log(`    Result: ${message}`);
+
+  // Add tool result as user message, with image if available
+  if (result.image) {
+    chat.push({
+      role: "user",
+      content: `Tool result: ${message}\n\nHere is the screenshot:`,
+      images: [result.image],
+    });
+    console.log(`    [Screenshot attached]`);
+  } else {
+    chat.push({ role: "user", content: `Tool result: ${message}` });
+  }
+  return { kind: "toolCalls" };
+}
+
+/**
+ * Native round: tool definitions go through the model's function-calling API
+ * and results come back as tool messages. Tool messages can't carry images,
+ * so the latest screenshot follows as a user message.
+ */
+async function runNativeRound(run: AgentRun): Promise<RoundOutcome> {
+  const { chat, tools } = run;
+  const response = await requestReply(run, { tools: tools.definitions });
+
+  chat.push({
+    role: "assistant",
+    content: response.content,
+    toolCalls: response.toolCalls,
+  });
+
+  if (response.toolCalls.length === 0) {
+    return { kind: "final", answer: response.content };
+  }
+
+  let latestImage: ToolResult["image"];
+  let validCalls = 0;
+  for (const call of response.toolCalls) {
+    const validation = validateToolCall(call.name, call.args, tools.schemas);
+    let message: string;
+    if (validation.ok) {
+      validCalls++;
+      const result = await executeTool(
+        run,
+        call.name,
+        validation.args,
+        "native",
+        call.id
+      );
+      message = result.message;
+      latestImage = result.image ?? latestImage;
+    } else {
+      message = `${validation.error}\nCall the tool again with corrected arguments.`;
+      await run.trace?.record({
+        type: "tool.malformed",
+        round: run.round,
+        errors: [validation.error],
+      });
+    }
+    console.log(`    Result: ${message}`);
+    chat.push({
+      role: "tool",
+      toolCallId: call.id,
+      name: call.name,
+      content: message,
+    });
+  }
+
+  if (latestImage) {
+    chat.push({
+      role: "user",
+      content: "Here is the screenshot after the tool call:",
+      images: [latestImage],
+    });
+    console.log(`    [Screenshot attached]`);
+  }
+  return validCalls > 0 ? { kind: "toolCalls" } : { kind: "malformed" };
+}
+
+/**
+ * Run the agent loop until the model gives a final answer, maxRounds is reached
+ * or the model keeps sending tool calls that can't be used.
+ */
+export async function runAgent(options: AgentOptions): Promise<AgentResult> {
+  const {
+    model,
+    tools,
+    prompt,
+    toolMode = "text",
+    maxRounds = 100,
+    maxRepairAttempts = 3,
+    trace,
+    context,
+  } = options;
+
+  const run: AgentRun = {
+    model,
+    tools,
+    context: createContextManager(model, context),
+    sources: createSourceLedger(),
+    trace,
+    chat: [
+      { role: "system", content: buildSystemPrompt(toolMode, tools.geometry) },
+      { role: "user", content: prompt },
+    ],
+    round: 0,
+    tracedMessages: 0,
+  };
+
+  await trace?.record({
+    type: "run.start",
+    version: TRACE_FORMAT_VERSION,
+    runId: trace.runId,
+    prompt,
+    toolMode,
+    model: { provider: model.provider, identifier: model.identifier },
+    geometry: tools.geometry,
+  });
+
+  const finish = async (
+    result: Omit<AgentResult, "chat" | "sources">
+  ): Promise<AgentResult> => {
+    const sources = run.sources.entries;
+    await trace?.record({ type: "run.end", ...result, sources });
+    return { ...result, sources, chat: run.chat };
+  };
+
+  let malformedInARow = 0;
+  while (run.round < maxRounds) {
+    run.round++;
+    console.log(`\n[Round ${run.round}]`);
+    await trace?.record({ type: "round.start", round: run.round });
+
+    const outcome =
+      toolMode === "native" ? await runNativeRound(run) : await runTextRound(run);
+
+    if (outcome.kind === "final") {
+      console.log("\n");
+      return finish({
+        answer: outcome.answer,
+        citations: checkCitations(outcome.answer, run.sources),
+        stopReason: "answer",
+        rounds: run.round,
+      });
+    }
+
+    malformedInARow = outcome.kind === "malformed" ? malformedInARow + 1 : 0;
+    if (malformedInARow > maxRepairAttempts) {
+      console.log(
+        `\n[Stopping: ${malformedInARow} malformed tool calls in a row]`
+      );
+      return finish({ stopReason: "malformedToolCalls", rounds: run.round });
+    }
+  }
+
+  return finish({ stopReason: "maxRounds", rounds: maxRounds });
+}
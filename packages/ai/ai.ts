@@ -1,13 +1,39 @@
-import { LMStudioClient } from "@lmstudio/sdk";
+import {
+  createLMStudioProvider,
+  createOpenAICompatibleProvider,
+  type ChatModel,
+  type LLMProvider,
+} from "./providers/index.ts";
 
-export const client = new LMStudioClient();
+export type ProviderName = "lmstudio" | "openai";
 
-// Get the model - this will use the currently loaded model in LM Studio
-// or you can specify a specific model like "google/gemma-3-12b"
-export async function getModel(modelIdentifier?: string) {
-  if (modelIdentifier) {
-    return client.llm.model(modelIdentifier);
+export interface ProviderConfig {
+  provider?: ProviderName;
+  // LM Studio: WebSocket URL. OpenAI-compatible: base URL such as "http://localhost:8080/v1"
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export function createProvider(config: ProviderConfig = {}): LLMProvider {
+  const { provider = "lmstudio", baseUrl, apiKey } = config;
+  switch (provider) {
+    case "lmstudio":
+      return createLMStudioProvider({ baseUrl });
+    case "openai":
+      if (!baseUrl) {
+        throw new Error("The openai provider requires a base URL");
+      }
+      return createOpenAICompatibleProvider({ baseUrl, apiKey });
+    default:
+      throw new Error(`Unknown provider: ${provider}`);
   }
-  // Use any loaded model
-  return client.llm.model();
+}
+
+// Get the model - this will use the provider's default model (for LM Studio,
+// the currently loaded one) or you can specify a specific model like "google/gemma-3-12b"
+export async function getModel(
+  modelIdentifier?: string,
+  provider: LLMProvider = createProvider()
+): Promise<ChatModel> {
+  return provider.getModel(modelIdentifier);
 }
@@ -0,0 +1,319 @@
+import type { ChatMessage, ChatModel } from "./providers/index.ts";
+
+export interface ContextPolicy {
+  // Screenshots kept in the chat; older ones become text placeholders
+  maxImages: number;
+  // Most recent rounds kept verbatim; older rounds are folded into a running summary
+  recentRounds: number;
+  // Context window in tokens; overrides what the model reports
+  contextLength?: number;
+  // Share of the context window the prompt may fill, leaving room for the reply
+  promptBudget: number;
+  // Estimated tokens per image, since image tokens can't be counted from text
+  imageTokens: number;
+  // Tool results longer than this are cut in all but the latest round when space runs out
+  maxOldResultChars: number;
+}
+
+export const defaultContextPolicy: ContextPolicy = {
+  maxImages: 3,
+  recentRounds: 8,
+  promptBudget: 0.75,
+  imageTokens: 300,
+  maxOldResultChars: 2000,
+};
+
+/**
+ * What the context manager did to the chat before a request.
+ */
+export interface ContextUsage {
+  estimatedTokens: number;
+  // Unknown if neither the policy nor the model provide it
+  contextLength?: number;
+  keptImages: number;
+  omittedImages: number;
+  summarizedRounds: number;
+  // True if the prompt still doesn't fit after every reduction
+  overBudget: boolean;
+}
+
+export interface PreparedContext {
+  messages: ChatMessage[];
+  usage: ContextUsage;
+}
+
+export interface ContextManager {
+  readonly policy: ContextPolicy;
+  // Build the messages to send for this request; `chat` is left untouched
+  prepare(chat: ChatMessage[]): Promise<PreparedContext>;
+}
+
+// How aggressively a view of the chat is reduced
+interface Reduction {
+  rounds: number;
+  images: number;
+  truncateOldResults: boolean;
+  // Most recent summary lines kept
+  summaryLines: number;
+}
+
+// One round: the assistant reply and the tool results / user messages that follow it
+type Round = ChatMessage[];
+
+const SUMMARY_LINE_CHARS = 200;
+
+function firstLine(text: string): string {
+  const line = text.trim().split("\n")[0] ?? "";
+  return line.length > SUMMARY_LINE_CHARS
+    ? `${line.slice(0, SUMMARY_LINE_CHARS)}...`
+    : line;
+}
+
+// Split the chat after the system prompt and task into rounds, each starting at an assistant reply
+function splitRounds(messages: ChatMessage[]): Round[] {
+  const rounds: Round[] = [];
+  for (const message of messages) {
+    if (message.role === "assistant" || rounds.length === 0) {
+      rounds.push([message]);
+    } else {
+      rounds.at(-1)!.push(message);
+    }
+  }
+  return rounds;
+}
+
+// One line per message of a round, e.g. "navigate {"url":"..."} -> Navigated to ..."
+function summarizeRound(round: Round, index: number): string {
+  const parts = round.map((message) => {
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return message.toolCalls
+        .map((call) => `${call.name} ${JSON.stringify(call.args)}`)
+        .join(", ");
+    }
+    return firstLine(message.content.replace(/^Tool result: /, ""));
+  });
+  return `- Step ${index + 1}: ${parts.filter(Boolean).join(" -> ")}`;
+}
+
+function estimateTextTokens(messages: ChatMessage[]): number {
+  const chars = messages.reduce(
+    (sum, message) =>
+      sum +
+      message.content.length +
+      (message.role === "assistant"
+        ? JSON.stringify(message.toolCalls ?? []).length
+        : 0),
+    0
+  );
+  // Roughly four characters per token for English text and JSON
+  return Math.ceil(chars / 4);
+}
+
+function countImages(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (sum, message) =>
+      message.role === "system" || message.role === "user"
+        ? sum + (message.images?.length ?? 0)
+        : sum,
+    0
+  );
+}
+
+function withoutImages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message) =>
+    message.role === "system" || message.role === "user"
+      ? { role: message.role, content: message.content }
+      : message
+  );
+}
+
+/**
+ * Build a reduced view of the chat: the system prompt and task, a summary of
+ * older rounds folded into the task message (so user and assistant turns keep
+ * alternating), then the most recent rounds with only the newest images.
+ */
+function buildView(
+  chat: ChatMessage[],
+  reduction: Reduction,
+  maxOldResultChars: number
+): {
+  messages: ChatMessage[];
+  summarizedRounds: number;
+  omittedImages: number;
+} {
+  const [system, task, ...rest] = chat;
+  if (!system || !task || task.role !== "user") {
+    return { messages: chat, summarizedRounds: 0, omittedImages: 0 };
+  }
+
+  const rounds = splitRounds(rest);
+  const keptRounds = Math.max(1, reduction.rounds);
+  const older = rounds.slice(0, -keptRounds);
+  const recent = rounds.slice(-keptRounds);
+
+  let taskMessage: ChatMessage = task;
+  if (older.length > 0) {
+    const lines = older.map(summarizeRound);
+    const kept = lines.slice(-reduction.summaryLines);
+    const omitted = lines.length - kept.length;
+    const summary = [
+      `Summary of your earlier steps (${older.length} rounds, oldest first):`,
+      ...(omitted > 0 ? [`- (${omitted} earlier steps omitted)`] : []),
+      ...kept,
+    ].join("\n");
+    taskMessage = { ...task, content: `${task.content}\n\n${summary}` };
+  }
+
+  // Walk backwards so the newest images are the ones kept
+  let imagesLeft = reduction.images;
+  let omittedImages = 0;
+  const recentMessages = recent.flatMap((round, roundIndex) => {
+    const isLatest = roundIndex === recent.length - 1;
+    return round.map((message) => ({ message, isLatest }));
+  });
+  const reduced: ChatMessage[] = [];
+  for (let i = recentMessages.length - 1; i >= 0; i--) {
+    const { message, isLatest } = recentMessages[i]!;
+    let next: ChatMessage = message;
+
+    if (
+      reduction.truncateOldResults &&
+      !isLatest &&
+      message.role !== "assistant" &&
+      message.content.length > maxOldResultChars
+    ) {
+      next = {
+        ...next,
+        content: `${message.content.slice(
+          0,
+          maxOldResultChars
+        )}\n[... truncated to save context]`,
+      } as ChatMessage;
+    }
+
+    if (
+      (next.role === "user" || next.role === "system") &&
+      next.images?.length
+    ) {
+      const keep = Math.min(imagesLeft, next.images.length);
+      imagesLeft -= keep;
+      const dropped = next.images.length - keep;
+      if (dropped > 0) {
+        omittedImages += dropped;
+        next = {
+          role: next.role,
+          content: `${next.content}\n[Earlier screenshot omitted to save context]`,
+          images: next.images.slice(dropped),
+        };
+      }
+    }
+    reduced.unshift(next);
+  }
+
+  omittedImages += countImages(older.flat());
+  return {
+    messages: [system, taskMessage, ...reduced],
+    summarizedRounds: older.length,
+    omittedImages,
+  };
+}
+
+/**
+ * Keeps long, screenshot-heavy chats inside the model's context window. Before
+ * each request it keeps the newest `maxImages` screenshots, folds rounds older
+ * than `recentRounds` into a running summary and measures the result. If the
+ * prompt is still over budget it keeps fewer rounds and images, cuts long old
+ * tool results and shortens the summary, and as a last resort sends the
+ * smallest view it has rather than failing the run.
+ */
+export function createContextManager(
+  model: ChatModel,
+  policy: Partial<ContextPolicy> = {}
+): ContextManager {
+  const resolved: ContextPolicy = {
+    ...defaultContextPolicy,
+    // Unset fields (e.g. from CLI flags that weren't given) keep their defaults
+    ...Object.fromEntries(
+      Object.entries(policy).filter(([, value]) => value !== undefined)
+    ),
+  };
+  let contextLength: Promise<number | undefined> | undefined;
+
+  const getContextLength = () => {
+    contextLength ??= resolved.contextLength
+      ? Promise.resolve(resolved.contextLength)
+      : (model.getContextLength?.() ?? Promise.resolve(undefined)).catch(
+          () => undefined
+        );
+    return contextLength;
+  };
+
+  const measure = async (messages: ChatMessage[]): Promise<number> => {
+    const images = countImages(messages) * resolved.imageTokens;
+    if (model.countTokens) {
+      try {
+        return (await model.countTokens(withoutImages(messages))) + images;
+      } catch {
+        // Fall back to the estimate below
+      }
+    }
+    return estimateTextTokens(messages) + images;
+  };
+
+  // Progressively smaller views, tried in order until one fits
+  const reductions = (): Reduction[] => {
+    const { recentRounds, maxImages } = resolved;
+    const steps: Reduction[] = [];
+    let rounds = recentRounds;
+    do {
+      steps.push({
+        rounds,
+        images: maxImages,
+        truncateOldResults: false,
+        summaryLines: Infinity,
+      });
+      rounds = Math.floor(rounds / 2);
+    } while (rounds >= 1);
+
+    // Then only the latest screenshot, shorter old results and a shorter summary
+    const images = Math.min(1, maxImages);
+    steps.push(
+      { rounds: 1, images, truncateOldResults: false, summaryLines: Infinity },
+      { rounds: 1, images, truncateOldResults: true, summaryLines: Infinity },
+      { rounds: 1, images, truncateOldResults: true, summaryLines: 20 },
+      { rounds: 1, images, truncateOldResults: true, summaryLines: 5 }
+    );
+    return steps;
+  };
+
+  return {
+    policy: resolved,
+
+    async prepare(chat) {
+      const limit = await getContextLength();
+      // Without a known context length only the policy limits apply
+      const budget = limit
+        ? Math.floor(limit * resolved.promptBudget)
+        : Infinity;
+
+      let prepared: PreparedContext | undefined;
+      for (const reduction of reductions()) {
+        const view = buildView(chat, reduction, resolved.maxOldResultChars);
+        const estimatedTokens = await measure(view.messages);
+        prepared = {
+          messages: view.messages,
+          usage: {
+            estimatedTokens,
+            contextLength: limit,
+            keptImages: countImages(view.messages),
+            omittedImages: view.omittedImages,
+            summarizedRounds: view.summarizedRounds,
+            overBudget: estimatedTokens > budget,
+          },
+        };
+        if (!prepared.usage.overBudget) break;
+      }
+      return prepared!;
+    },
+  };
+}
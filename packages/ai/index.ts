@@ -1 +1,58 @@
-export { client, getModel } from "./ai.ts";
+export {
+  createProvider,
+  getModel,
+  type ProviderConfig,
+  type ProviderName,
+} from "./ai.ts";
+export {
+  createContextManager,
+  defaultContextPolicy,
+  type ContextManager,
+  type ContextPolicy,
+  type ContextUsage,
+  type PreparedContext,
+} from "./context.ts";
+export {
+  createLMStudioProvider,
+  createOpenAICompatibleProvider,
+  createScriptedProvider,
+  type ChatImage,
+  type ChatMessage,
+  type ChatModel,
+  type LLMProvider,
+  type LMStudioProviderOptions,
+  type ModelResponse,
+  type OpenAICompatibleProviderOptions,
+  type RespondOptions,
+  type ScriptedCall,
+  type ScriptedProvider,
+  type ScriptedTurn,
+  type ToolCallRequest,
+} from "./providers/index.ts";
+export {
+  checkCitations,
+  createSourceLedger,
+  formatSourceNote,
+  formatSources,
+  type CitationCheck,
+  type SourceEntry,
+  type SourceLedger,
+} from "./sources.ts";
+export {
+  createTraceRecorder,
+  TRACE_FORMAT_VERSION,
+  type TraceEvent,
+  type TraceEventOfType,
+  type TracedMessage,
+  type TraceRecorder,
+} from "./trace.ts";
+export {
+  compareElements,
+  loadTrace,
+  replayRun,
+  type Divergence,
+  type RecordedRun,
+  type ReplayOptions,
+  type ReplayResult,
+} from "./replay.ts";
+export { renderReport, writeReport } from "./report.ts";
@@ -0,0 +1,23 @@
+export type {
+  ChatImage,
+  ChatMessage,
+  ChatModel,
+  LLMProvider,
+  ModelResponse,
+  RespondOptions,
+  ToolCallRequest,
+} from "./types.ts";
+export {
+  createLMStudioProvider,
+  type LMStudioProviderOptions,
+} from "./lmstudio.ts";
+export {
+  createOpenAICompatibleProvider,
+  type OpenAICompatibleProviderOptions,
+} from "./openai-compatible.ts";
+export {
+  createScriptedProvider,
+  type ScriptedCall,
+  type ScriptedProvider,
+  type ScriptedTurn,
+} from "./scripted.ts";
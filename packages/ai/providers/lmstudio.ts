@@ -0,0 +1,140 @@
+import { Chat, LMStudioClient, type FileHandle, type LLM } from "@lmstudio/sdk";
+import type {
+  ChatImage,
+  ChatMessage,
+  ChatModel,
+  LLMProvider,
+  ModelResponse,
+  RespondOptions,
+  ToolCallRequest,
+} from "./types.ts";
+
+export interface LMStudioProviderOptions {
+  // WebSocket URL of the LM Studio server, e.g. "ws://127.0.0.1:1234"
+  baseUrl?: string;
+}
+
+function createLMStudioChatModel(client: LMStudioClient, model: LLM): ChatModel {
+  // Uploaded images, keyed by filename, so history isn't re-uploaded every round
+  const preparedImages = new Map<string, FileHandle>();
+
+  async function prepareImage(image: ChatImage): Promise<FileHandle> {
+    let handle = preparedImages.get(image.filename);
+    if (!handle) {
+      handle = await client.files.prepareImageBase64(
+        image.filename,
+        image.base64
+      );
+      preparedImages.set(image.filename, handle);
+    }
+    return handle;
+  }
+
+  async function toChat(messages: ChatMessage[]): Promise<Chat> {
+    const chat = Chat.empty();
+    for (const message of messages) {
+      switch (message.role) {
+        case "system":
+        case "user": {
+          const images = await Promise.all(
+            (message.images ?? []).map(prepareImage)
+          );
+          chat.append(message.role, message.content, { images });
+          break;
+        }
+        case "assistant":
+          chat.append({
+            role: "assistant",
+            content: [
+              { type: "text", text: message.content },
+              ...(message.toolCalls ?? []).map((call) => ({
+                type: "toolCallRequest" as const,
+                toolCallRequest: {
+                  id: call.id,
+                  type: "function" as const,
+                  name: call.name,
+                  arguments: call.args,
+                },
+              })),
+            ],
+          });
+          break;
+        case "tool":
+          chat.append({
+            role: "tool",
+            content: [
+              {
+                type: "toolCallResult",
+                toolCallId: message.toolCallId,
+                content: message.content,
+              },
+            ],
+          });
+          break;
+      }
+    }
+    return chat;
+  }
+
+  return {
+    provider: "lmstudio",
+    identifier: model.identifier,
+
+    async respond(
+      messages: ChatMessage[],
+      options: RespondOptions = {}
+    ): Promise<ModelResponse> {
+      const chat = await toChat(messages);
+      const toolCalls: ToolCallRequest[] = [];
+
+      const result = await model.respond(chat, {
+        rawTools: options.tools
+          ? { type: "toolArray", tools: options.tools }
+          : undefined,
+        onPredictionFragment: (fragment) => {
+          if (fragment.content) {
+            options.onFragment?.(fragment.content);
+          }
+        },
+        onToolCallRequestEnd: (callId, { toolCallRequest }) => {
+          toolCalls.push({
+            id: toolCallRequest.id ?? `call_${callId}`,
+            name: toolCallRequest.name,
+            args: toolCallRequest.arguments ?? {},
+          });
+        },
+      });
+
+      return { content: result.content, toolCalls };
+    },
+
+    async getContextLength() {
+      return model.getContextLength();
+    },
+
+    async countTokens(messages: ChatMessage[]) {
+      const prompt = await model.applyPromptTemplate(await toChat(messages));
+      return model.countTokens(prompt);
+    },
+  };
+}
+
+/**
+ * Provider backed by the LM Studio SDK. Without an identifier, uses whichever
+ * model is currently loaded in LM Studio.
+ */
+export function createLMStudioProvider(
+  options: LMStudioProviderOptions = {}
+): LLMProvider {
+  const client = new LMStudioClient({ baseUrl: options.baseUrl });
+
+  return {
+    name: "lmstudio",
+    async getModel(identifier) {
+      const model = identifier
+        ? await client.llm.model(identifier)
+        : await client.llm.model();
+      return createLMStudioChatModel(client, model);
+    },
+  };
+}
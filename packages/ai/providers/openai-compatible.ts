@@ -0,0 +1,282 @@
+import type {
+  ChatMessage,
+  ChatModel,
+  LLMProvider,
+  ModelResponse,
+  RespondOptions,
+  ToolCallRequest,
+} from "./types.ts";
+
+export interface OpenAICompatibleProviderOptions {
+  // Base URL including the version prefix, e.g. "http://localhost:8080/v1"
+  baseUrl: string;
+  apiKey?: string;
+}
+
+// An entry of /v1/models; servers add their own fields for the context size
+interface ListedModel {
+  id: string;
+  max_model_len?: number;
+  context_length?: number;
+  meta?: { n_ctx?: number; n_ctx_train?: number };
+}
+
+interface StreamedToolCall {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
+// Convert our messages to the OpenAI chat completions wire format
+function toOpenAIMessages(messages: ChatMessage[]): unknown[] {
+  return messages.map((message) => {
+    switch (message.role) {
+      case "system":
+      case "user":
+        if (!message.images?.length) {
+          return { role: message.role, content: message.content };
+        }
+        return {
+          role: message.role,
+          content: [
+            { type: "text", text: message.content },
+            ...message.images.map((image) => ({
+              type: "image_url",
+              image_url: { url: `data:image/jpeg;base64,${image.base64}` },
+            })),
+          ],
+        };
+      case "assistant":
+        return {
+          role: "assistant",
+          content: message.content,
+          ...(message.toolCalls?.length
+            ? {
+                tool_calls: message.toolCalls.map((call) => ({
+                  id: call.id,
+                  type: "function",
+                  function: {
+                    name: call.name,
+                    arguments: JSON.stringify(call.args),
+                  },
+                })),
+              }
+            : {}),
+        };
+      case "tool":
+        return {
+          role: "tool",
+          tool_call_id: message.toolCallId,
+          content: message.content,
+        };
+    }
+  });
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  if (!raw.trim()) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Read a server-sent event stream from /chat/completions and accumulate the
+ * content and tool call deltas into a single response.
+ */
+async function readStream(
+  body: ReadableStream<Uint8Array>,
+  onFragment: (text: string) => void
+): Promise<{ content: string; toolCalls: StreamedToolCall[] }> {
+  const decoder = new TextDecoder();
+  const toolCalls: StreamedToolCall[] = [];
+  let content = "";
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    const data = line.trim();
+    if (!data.startsWith("data:")) return;
+    const payload = data.slice("data:".length).trim();
+    if (payload === "[DONE]") return;
+
+    let event;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      // Keep-alives and other non-JSON lines some servers send
+      return;
+    }
+    // Servers report failures mid-stream as an error event
+    if (event?.error) {
+      const error = event.error;
+      throw new Error(
+        `Chat completion stream failed: ${
+          typeof error === "string" ? error : error.message ?? JSON.stringify(error)
+        }`
+      );
+    }
+    const delta = event?.choices?.[0]?.delta;
+    if (!delta) return;
+
+    if (typeof delta.content === "string" && delta.content) {
+      content += delta.content;
+      onFragment(delta.content);
+    }
+    for (const part of delta.tool_calls ?? []) {
+      const index: number = part.index ?? toolCalls.length;
+      const call = (toolCalls[index] ??= { name: "", arguments: "" });
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.name += part.function.name;
+      if (part.function?.arguments) call.arguments += part.function.arguments;
+    }
+  };
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  // The last line may end without a newline
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
+
+  return { content, toolCalls };
+}
+
+function createOpenAICompatibleChatModel(
+  options: OpenAICompatibleProviderOptions,
+  identifier: string
+): ChatModel {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+
+  return {
+    provider: "openai",
+    identifier,
+
+    async respond(
+      messages: ChatMessage[],
+      respondOptions: RespondOptions = {}
+    ): Promise<ModelResponse> {
+      const { tools, onFragment } = respondOptions;
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey
+            ? { Authorization: `Bearer ${options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: identifier,
+          messages: toOpenAIMessages(messages),
+          ...(tools?.length ? { tools } : {}),
+          stream: Boolean(onFragment),
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Chat completion request failed: ${response.status} ${
+            response.statusText
+          } ${await response.text()}`
+        );
+      }
+
+      let content: string;
+      let rawCalls: StreamedToolCall[];
+      if (onFragment && response.body) {
+        ({ content, toolCalls: rawCalls } = await readStream(
+          response.body,
+          onFragment
+        ));
+      } else {
+        const completion = (await response.json()) as {
+          choices?: {
+            message?: {
+              content?: string | null;
+              tool_calls?: {
+                id?: string;
+                function: { name: string; arguments?: string };
+              }[];
+            };
+          }[];
+        };
+        const message = completion.choices?.[0]?.message;
+        content = message?.content ?? "";
+        rawCalls = (message?.tool_calls ?? []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments ?? "",
+        }));
+      }
+
+      const toolCalls: ToolCallRequest[] = rawCalls
+        .filter((call) => call.name)
+        .map((call, index) => ({
+          id: call.id ?? `call_${index}`,
+          name: call.name,
+          args: parseToolArguments(call.arguments),
+        }));
+
+      return { content, toolCalls };
+    },
+
+    async getContextLength() {
+      const response = await fetch(`${baseUrl}/models`, {
+        headers: options.apiKey
+          ? { Authorization: `Bearer ${options.apiKey}` }
+          : {},
+      });
+      if (!response.ok) return undefined;
+      const { data } = (await response.json()) as { data?: ListedModel[] };
+      const listed = data?.find((model) => model.id === identifier);
+      // vLLM reports max_model_len, llama.cpp server reports meta.n_ctx_train
+      return (
+        listed?.max_model_len ??
+        listed?.context_length ??
+        listed?.meta?.n_ctx ??
+        listed?.meta?.n_ctx_train
+      );
+    },
+  };
+}
+
+/**
+ * Provider for any server exposing an OpenAI-compatible /v1/chat/completions
+ * endpoint (llama.cpp server, vLLM, Ollama, ...). Without an identifier, uses
+ * the first model listed by /v1/models.
+ */
+export function createOpenAICompatibleProvider(
+  options: OpenAICompatibleProviderOptions
+): LLMProvider {
+  return {
+    name: "openai",
+    async getModel(identifier) {
+      if (identifier) {
+        return createOpenAICompatibleChatModel(options, identifier);
+      }
+
+      const baseUrl = options.baseUrl.replace(/\/+$/, "");
+      const response = await fetch(`${baseUrl}/models`, {
+        headers: options.apiKey
+          ? { Authorization: `Bearer ${options.apiKey}` }
+          : {},
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Failed to list models at ${baseUrl}/models: ${response.status} ${response.statusText}`
+        );
+      }
+      const { data } = (await response.json()) as { data?: ListedModel[] };
+      const first = data?.[0];
+      if (!first) {
+        throw new Error(`No models available at ${baseUrl}/models`);
+      }
+      return createOpenAICompatibleChatModel(options, first.id);
+    },
+  };
+}
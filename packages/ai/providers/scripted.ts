@@ -0,0 +1,77 @@
+import type {
+  ChatMessage,
+  ChatModel,
+  LLMProvider,
+  ModelResponse,
+  RespondOptions,
+} from "./types.ts";
+
+/**
+ * One scripted turn: plain text, a full response, or a function that builds
+ * the response from the messages the model was given.
+ */
+export type ScriptedTurn =
+  | string
+  | Partial<ModelResponse>
+  | ((
+      messages: ChatMessage[],
+      options: RespondOptions
+    ) => string | Partial<ModelResponse>);
+
+export interface ScriptedCall {
+  messages: ChatMessage[];
+  options: RespondOptions;
+}
+
+export interface ScriptedProvider extends LLMProvider {
+  // Every respond() call received so far, for assertions in tests
+  readonly calls: ScriptedCall[];
+}
+
+/**
+ * In-process fake model that replays a fixed script of responses, one per
+ * respond() call. Lets the agent loop run without a real model server.
+ */
+export function createScriptedProvider(turns: ScriptedTurn[]): ScriptedProvider {
+  const calls: ScriptedCall[] = [];
+  let next = 0;
+
+  const model: ChatModel = {
+    provider: "scripted",
+    identifier: "scripted",
+
+    async respond(
+      messages: ChatMessage[],
+      options: RespondOptions = {}
+    ): Promise<ModelResponse> {
+      calls.push({ messages: [...messages], options });
+
+      const turn = turns[next++];
+      if (turn === undefined) {
+        throw new Error(
+          `Scripted model ran out of responses after ${turns.length} turns`
+        );
+      }
+
+      const output =
+        typeof turn === "function" ? turn(messages, options) : turn;
+      const response: ModelResponse =
+        typeof output === "string"
+          ? { content: output, toolCalls: [] }
+          : { content: output.content ?? "", toolCalls: output.toolCalls ?? [] };
+
+      if (response.content) {
+        options.onFragment?.(response.content);
+      }
+      return response;
+    },
+  };
+
+  return {
+    name: "scripted",
+    calls,
+    async getModel() {
+      return model;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { ToolDefinition } from "@llm-browser-agent/tools";
+
+/**
+ * A base64 encoded image attached to a chat message (usually a screenshot).
+ */
+export interface ChatImage {
+  filename: string;
+  base64: string;
+}
+
+/**
+ * A tool call requested by the model through its native tool-calling API.
+ */
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Provider-neutral chat message. Adapters convert these into their own wire format.
+ */
+export type ChatMessage =
+  | { role: "system" | "user"; content: string; images?: ChatImage[] }
+  | { role: "assistant"; content: string; toolCalls?: ToolCallRequest[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+export interface RespondOptions {
+  // Tool definitions to expose through the model's native tool-calling API
+  tools?: ToolDefinition[];
+  // Called with each streamed text fragment
+  onFragment?: (text: string) => void;
+}
+
+export interface ModelResponse {
+  content: string;
+  toolCalls: ToolCallRequest[];
+}
+
+/**
+ * Handle to a loaded model. This is what the agent loop talks to.
+ */
+export interface ChatModel {
+  readonly provider: string;
+  readonly identifier: string;
+  respond(messages: ChatMessage[], options?: RespondOptions): Promise<ModelResponse>;
+  // Context window in tokens, if the server reports it
+  getContextLength?(): Promise<number | undefined>;
+  // Exact token count of the prompt built from text-only messages, if the server can tokenize
+  countTokens?(messages: ChatMessage[]): Promise<number>;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Get a model by identifier, or whatever the provider considers its default model
+  getModel(identifier?: string): Promise<ChatModel>;
+}
@@ -0,0 +1,335 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { BrowserTools, LabeledElement } from "@llm-browser-agent/tools";
+import { runAgent, type AgentResult } from "./agent.ts";
+import type { ContextPolicy } from "./context.ts";
+import type {
+  ChatMessage,
+  ChatModel,
+  ModelResponse,
+  RespondOptions,
+} from "./providers/index.ts";
+import {
+  TRACE_FORMAT_VERSION,
+  type TraceEvent,
+  type TraceEventOfType,
+  type TraceRecorder,
+} from "./trace.ts";
+
+export interface RecordedRun {
+  dir: string;
+  start: TraceEventOfType<"run.start">;
+  events: TraceEvent[];
+}
+
+export interface Divergence {
+  round: number;
+  tool: string;
+  // What differs between the recording and the replay
+  field: "call" | "tool" | "error" | "url" | "elements";
+  expected: string;
+  actual: string;
+}
+
+export interface ReplayOptions {
+  recording: RecordedRun;
+  tools: BrowserTools;
+  // Replay rounds before this one, then let `liveModel` continue from it
+  handoffRound?: number;
+  liveModel?: ChatModel;
+  // Record the replay itself as a new trace
+  trace?: TraceRecorder;
+  context?: Partial<ContextPolicy>;
+}
+
+export interface ReplayResult extends AgentResult {
+  divergences: Divergence[];
+}
+
+// Labels may move by a few pixels between runs (fonts, scrollbars) without the page changing
+const POSITION_TOLERANCE = 4;
+
+/**
+ * Load a trace written by createTraceRecorder.
+ */
+export async function loadTrace(dir: string): Promise<RecordedRun> {
+  const text = await readFile(join(dir, "trace.jsonl"), "utf8");
+  const events = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as TraceEvent);
+
+  const start = events[0];
+  if (start?.type !== "run.start") {
+    throw new Error(`Trace in ${dir} does not start with a run.start event`);
+  }
+  if (start.version !== TRACE_FORMAT_VERSION) {
+    throw new Error(
+      `Trace in ${dir} has format version ${start.version}, expected ${TRACE_FORMAT_VERSION}`
+    );
+  }
+  return { dir, start, events };
+}
+
+function eventsOfType<T extends TraceEvent["type"]>(
+  events: TraceEvent[],
+  type: T
+): TraceEventOfType<T>[] {
+  return events.filter(
+    (event): event is TraceEventOfType<T> => event.type === type
+  );
+}
+
+function describeElement(element: LabeledElement): string {
+  const state = element.disabled ? " disabled" : "";
+  return `[${element.label}] ${element.role} "${element.name}"${state} at (${element.x}, ${element.y})`;
+}
+
+/**
+ * Describe the first difference between two element lists, or undefined if
+ * they match: same role, name, disabled and checked state, and positions
+ * within POSITION_TOLERANCE.
+ */
+export function compareElements(
+  expected: LabeledElement[],
+  actual: LabeledElement[]
+): { expected: string; actual: string } | undefined {
+  for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+    const want = expected[i];
+    const got = actual[i];
+    if (!want || !got) {
+      return {
+        expected: `${expected.length} elements`,
+        actual: `${actual.length} elements`,
+      };
+    }
+    if (
+      want.role !== got.role ||
+      want.name !== got.name ||
+      want.disabled !== got.disabled ||
+      want.checked !== got.checked ||
+      Math.abs(want.x - got.x) > POSITION_TOLERANCE ||
+      Math.abs(want.y - got.y) > POSITION_TOLERANCE
+    ) {
+      return { expected: describeElement(want), actual: describeElement(got) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A model that answers with the recorded responses, then hands over to
+ * `liveModel` (if any) once they run out.
+ */
+function createReplayModel(
+  responses: ModelResponse[],
+  recording: RecordedRun,
+  liveModel: ChatModel | undefined,
+  // Told the index of each recorded response as it is given out
+  onResponse: (index: number) => void
+): ChatModel {
+  let next = 0;
+  return {
+    provider: liveModel?.provider ?? "replay",
+    identifier: liveModel?.identifier ?? recording.start.model.identifier,
+
+    async respond(
+      messages: ChatMessage[],
+      options: RespondOptions = {}
+    ): Promise<ModelResponse> {
+      const response = responses[next++];
+      onResponse(next - 1);
+      if (response) {
+        if (response.content) options.onFragment?.(response.content);
+        return response;
+      }
+      if (!liveModel) {
+        throw new Error(
+          `Recording in ${recording.dir} has no response for round ${next}`
+        );
+      }
+      if (next === responses.length + 1) {
+        console.log("\n[Handing control to the live model]");
+      }
+      return liveModel.respond(messages, options);
+    },
+  };
+}
+
+/**
+ * Re-execute a recorded run against `tools` without calling the model: every
+ * round gets the response recorded for it, so the same tool calls run in the
+ * same order. After each call its error, the page URL and the labeled elements
+ * are compared with the recording and any difference is reported as a
+ * divergence.
+ *
+ * With `handoffRound`, rounds from that one on are answered by `liveModel`,
+ * starting from the browser state the replay reached.
+ */
+export async function replayRun(options: ReplayOptions): Promise<ReplayResult> {
+  const { recording, tools, handoffRound, liveModel, trace, context } =
+    options;
+  const { events, start } = recording;
+
+  const recordedRounds = eventsOfType(events, "round.start").length;
+  if (handoffRound !== undefined) {
+    if (!liveModel) {
+      throw new Error("A live model is needed to hand off a replay");
+    }
+    if (handoffRound < 1 || handoffRound > recordedRounds + 1) {
+      throw new Error(
+        `Handoff round must be between 1 and ${recordedRounds + 1}, got ${handoffRound}`
+      );
+    }
+  }
+  const replayedRounds = (handoffRound ?? recordedRounds + 1) - 1;
+
+  const recordedResponses = eventsOfType(events, "model.response").filter(
+    (event) => event.round <= replayedRounds
+  );
+  const responses = recordedResponses.map(({ content, toolCalls }) => ({
+    content,
+    toolCalls,
+  }));
+  // Calls for unknown tools never reach an implementation, in the replay either
+  const expectedCalls = eventsOfType(events, "tool.call").filter(
+    (event) => event.round <= replayedRounds && event.tool in tools.implementations
+  );
+  const expectedResults = eventsOfType(events, "tool.result");
+
+  // Compare every replayed tool result with the recorded one at the same position
+  const divergences: Divergence[] = [];
+  const report = (divergence: Divergence) => {
+    divergences.push(divergence);
+    console.log(
+      `    [Divergence in round ${divergence.round}] ${divergence.field}: expected ${divergence.expected}, got ${divergence.actual}`
+    );
+  };
+
+  // Recorded calls are matched to replayed ones within their round: native
+  // calls by call ID, text calls by position. A call too many or too few
+  // only shows in its own round
+  let round: number | undefined;
+  let position = 0;
+  const reportMissing = () => {
+    for (const missing of expectedCalls
+      .filter((call) => call.round === round)
+      .slice(position)) {
+      report({
+        round: missing.round,
+        tool: missing.tool,
+        field: "call",
+        expected: missing.tool,
+        actual: "(not called)",
+      });
+    }
+  };
+  const onResponse = (index: number) => {
+    reportMissing();
+    round = recordedResponses[index]?.round;
+    position = 0;
+  };
+  const expectedFor = (name: string) => {
+    if (round === undefined) return undefined;
+    const call = expectedCalls.filter((event) => event.round === round)[position++];
+    if (!call) {
+      report({
+        round,
+        tool: name,
+        field: "call",
+        expected: "(no call)",
+        actual: name,
+      });
+      return undefined;
+    }
+    const results = expectedResults.filter((event) => event.round === round);
+    return call.callId !== undefined
+      ? results.find((event) => event.callId === call.callId)
+      : results.filter((event) => event.tool in tools.implementations)[position - 1];
+  };
+
+  const implementations: BrowserTools["implementations"] = {};
+  for (const [name, implementation] of Object.entries(tools.implementations)) {
+    implementations[name] = async (args) => {
+      // Taken before the call, since failed calls were recorded too
+      const expected = expectedFor(name);
+      if (!expected) return implementation(args);
+
+      const { round } = expected;
+      if (expected.tool !== name) {
+        report({
+          round,
+          tool: name,
+          field: "tool",
+          expected: expected.tool,
+          actual: name,
+        });
+      }
+
+      // The agent records a thrown error as "Tool <name> failed: <message>"
+      const failurePrefix = `Tool ${expected.tool} failed: `;
+      const expectedError = expected.message.startsWith(failurePrefix)
+        ? expected.message.slice(failurePrefix.length)
+        : undefined;
+      let output;
+      try {
+        output = await implementation(args);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (message !== expectedError) {
+          report({
+            round,
+            tool: name,
+            field: "error",
+            expected: expectedError ?? "(none)",
+            actual: message,
+          });
+        }
+        throw error;
+      }
+      if (expectedError !== undefined) {
+        report({
+          round,
+          tool: name,
+          field: "error",
+          expected: expectedError,
+          actual: "(none)",
+        });
+      }
+      const result = typeof output === "string" ? { message: output } : output;
+      if (expected.url !== result.url) {
+        report({
+          round,
+          tool: name,
+          field: "url",
+          expected: expected.url ?? "(none)",
+          actual: result.url ?? "(none)",
+        });
+      }
+      if (expected.elements || result.elements) {
+        const difference = compareElements(
+          expected.elements ?? [],
+          result.elements ?? []
+        );
+        if (difference) {
+          report({ round, tool: name, field: "elements", ...difference });
+        }
+      }
+      return result;
+    };
+  }
+
+  const result = await runAgent({
+    model: createReplayModel(responses, recording, liveModel, onResponse),
+    tools: { ...tools, implementations },
+    prompt: start.prompt,
+    toolMode: start.toolMode,
+    maxRounds: handoffRound === undefined ? recordedRounds : undefined,
+    trace,
+    context,
+  });
+  // Recorded calls of the last replayed round the replay never reached
+  reportMissing();
+
+  return { ...result, divergences };
+}
@@ -0,0 +1,295 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  formatElementList,
+  toImageBox,
+  type Geometry,
+  type LabeledElement,
+} from "@llm-browser-agent/tools";
+import type { RecordedRun } from "./replay.ts";
+import type { TraceEvent, TraceEventOfType } from "./trace.ts";
+
+// A screenshot as the model saw it, with the labels detected on it
+interface Screen {
+  path: string;
+  elements?: LabeledElement[];
+}
+
+interface ReportRound {
+  round: number;
+  // The screenshot the model was looking at when it wrote this round's reply
+  screen?: Screen;
+  response?: TraceEventOfType<"model.response">;
+  calls: TraceEventOfType<"tool.call">[];
+  results: TraceEventOfType<"tool.result">[];
+  malformed: string[];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Group the trace events by round, tracking which screenshot each round started from
+function groupRounds(events: TraceEvent[]): {
+  rounds: ReportRound[];
+  finalScreen?: Screen;
+} {
+  const rounds: ReportRound[] = [];
+  let screen: Screen | undefined;
+
+  for (const event of events) {
+    if (event.type === "round.start") {
+      rounds.push({
+        round: event.round,
+        screen,
+        calls: [],
+        results: [],
+        malformed: [],
+      });
+      continue;
+    }
+    const current = rounds.at(-1);
+    if (!current) continue;
+
+    if (event.type === "model.response") current.response = event;
+    if (event.type === "tool.call") current.calls.push(event);
+    if (event.type === "tool.malformed") current.malformed.push(...event.errors);
+    if (event.type === "tool.result") {
+      current.results.push(event);
+      if (event.screenshot) {
+        screen = { path: event.screenshot, elements: event.elements };
+      }
+    }
+  }
+
+  // The last screenshot is only shown if no round started from it
+  const finalScreen = screen !== rounds.at(-1)?.screen ? screen : undefined;
+  return { rounds, finalScreen };
+}
+
+// SVG shapes marking the elements or coordinates this round's calls acted on,
+// in screenshot pixels: element boxes are mapped from page space, while
+// coordinates given by the model already refer to the screenshot
+function renderHighlights(
+  geometry: Geometry,
+  screen: Screen,
+  calls: ReportRound["calls"]
+): string {
+  const box = (label: unknown) => {
+    if (typeof label !== "number") return "";
+    const element = screen.elements?.find((el) => el.label === label);
+    if (!element) return "";
+    const { x, y, width, height } = toImageBox(geometry, element);
+    return `<rect x="${x}" y="${y}" width="${width}" height="${height}" class="target"/>`;
+  };
+  return calls
+    .map(({ args }) => {
+      // dragByLabel marks both the dragged element and where it was dropped
+      const shapes = [box(args.label), box(args.from), box(args.to)];
+      if (typeof args.x === "number" && typeof args.y === "number") {
+        shapes.push(`<circle cx="${args.x}" cy="${args.y}" r="12" class="target"/>`);
+      }
+      return shapes.join("");
+    })
+    .join("");
+}
+
+async function renderScreen(
+  { dir, start }: RecordedRun,
+  screen: Screen,
+  calls: ReportRound["calls"] = []
+): Promise<string> {
+  const base64 = (await readFile(join(dir, screen.path))).toString("base64");
+  const elements = screen.elements
+    ? `<details><summary>Elements (${screen.elements.length})</summary><pre>${escapeHtml(
+        formatElementList(screen.elements)
+      )}</pre></details>`
+    : "";
+  return `<figure>
+  <div class="screen">
+    <img src="data:image/jpeg;base64,${base64}" alt="${escapeHtml(screen.path)}">
+    <svg>${renderHighlights(start.geometry, screen, calls)}</svg>
+  </div>
+  <figcaption>${escapeHtml(screen.path)}</figcaption>
+  ${elements}
+</figure>`;
+}
+
+function renderCall(
+  call: TraceEventOfType<"tool.call">,
+  result?: TraceEventOfType<"tool.result">
+): string {
+  const timing = result
+    ? ` <span class="muted">${result.durationMs} ms</span>`
+    : "";
+  const refusals = (result?.policy ?? []).filter((decision) => !decision.allowed);
+  const policy = refusals.length
+    ? `<ul class="errors">${refusals
+        .map(
+          (decision) =>
+            `<li>Policy refused ${escapeHtml(decision.action)} ${escapeHtml(
+              decision.target
+            )} (${escapeHtml(decision.rule ?? "")}): ${escapeHtml(decision.reason ?? "")}</li>`
+        )
+        .join("")}</ul>`
+    : "";
+  return `<div class="call">
+  <code>${escapeHtml(call.tool)}(${escapeHtml(JSON.stringify(call.args))})</code>${timing}
+  ${policy}
+  ${result ? `<pre>${escapeHtml(result.message)}</pre>` : ""}
+</div>`;
+}
+
+// The source ledger, cited pages marked, with the citation warnings
+function renderSources(end: TraceEventOfType<"run.end">): string {
+  if (end.sources.length === 0) return "";
+  const cited = end.citations?.cited ?? [];
+  const items = end.sources
+    .map((source) => {
+      const quotes = source.quotes
+        .map((quote) => `<blockquote>${escapeHtml(quote)}</blockquote>`)
+        .join("");
+      const state = [
+        cited.includes(source.id) ? "cited" : "",
+        source.readAt ? "read" : "opened only",
+      ].filter(Boolean);
+      return `<li value="${source.id}"><a href="${escapeHtml(source.url)}">${escapeHtml(
+        source.title || source.url
+      )}</a> <span class="muted">${escapeHtml(state.join(", "))} · ${escapeHtml(
+        source.visitedAt
+      )}</span>${quotes}</li>`;
+    })
+    .join("\n");
+  const warnings = end.citations?.warnings.length
+    ? `<ul class="errors">${end.citations.warnings
+        .map((warning) => `<li>${escapeHtml(warning)}</li>`)
+        .join("")}</ul>`
+    : "";
+  return `<h3>Sources</h3>
+  <ol>${items}</ol>
+  ${warnings}`;
+}
+
+async function renderRound(
+  recording: RecordedRun,
+  round: ReportRound
+): Promise<string> {
+  const { response } = round;
+  const reply = response
+    ? `<h3>Model reply <span class="muted">${response.durationMs} ms</span></h3>
+  <pre>${escapeHtml(response.content || "(no text)")}</pre>`
+    : "";
+
+  // Native calls are matched by ID, text calls (one per round) by position
+  const calls = round.calls
+    .map((call, index) =>
+      renderCall(
+        call,
+        call.callId
+          ? round.results.find((result) => result.callId === call.callId)
+          : round.results[index]
+      )
+    )
+    .join("\n");
+  const malformed = round.malformed.length
+    ? `<ul class="errors">${round.malformed
+        .map((error) => `<li>${escapeHtml(error)}</li>`)
+        .join("")}</ul>`
+    : "";
+
+  return `<section>
+  <h2>Round ${round.round}</h2>
+  <div class="round">
+    <div>
+      ${reply}
+      ${calls ? `<h3>Tool calls</h3>\n${calls}` : ""}
+      ${malformed}
+    </div>
+    ${
+      round.screen
+        ? await renderScreen(recording, round.screen, round.calls)
+        : ""
+    }
+  </div>
+</section>`;
+}
+
+/**
+ * Render a recorded run as a single HTML page: one section per round with the
+ * model's reply, the tool calls and their results, and the screenshot the model
+ * was looking at with the clicked element or coordinate outlined. Screenshots
+ * are embedded, so the file works offline and can be shared on its own.
+ */
+export async function renderReport(recording: RecordedRun): Promise<string> {
+  const { start, events } = recording;
+  const { rounds, finalScreen } = groupRounds(events);
+  const end = events.find(
+    (event): event is TraceEventOfType<"run.end"> => event.type === "run.end"
+  );
+
+  const sections = await Promise.all(
+    rounds.map((round) => renderRound(recording, round))
+  );
+  const outcome = end
+    ? `<section>
+  <h2>Result: ${escapeHtml(end.stopReason)} after ${end.rounds} rounds</h2>
+  ${end.answer ? `<pre>${escapeHtml(end.answer)}</pre>` : ""}
+  ${renderSources(end)}
+  ${finalScreen ? await renderScreen(recording, finalScreen) : ""}
+</section>`
+    : `<section><h2>The run did not finish</h2></section>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Run ${escapeHtml(start.runId)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+  pre { white-space: pre-wrap; background: #f5f5f5; padding: 0.5rem; border-radius: 4px; }
+  section { border-top: 1px solid #ddd; padding: 1rem 0; }
+  .round { display: grid; grid-template-columns: minmax(0, 1fr) minmax(0, 1fr); gap: 1.5rem; }
+  .muted { color: #888; font-weight: normal; font-size: 0.85em; }
+  .call { margin-bottom: 1rem; }
+  .errors { color: #b00020; }
+  figure { margin: 0; }
+  .screen { position: relative; }
+  .screen img { display: block; width: 100%; }
+  .screen svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+  .target { fill: none; stroke: #ff1744; stroke-width: 4; }
+</style>
+</head>
+<body>
+<h1>Run ${escapeHtml(start.runId)}</h1>
+<p><strong>Prompt:</strong> ${escapeHtml(start.prompt)}</p>
+<p class="muted">Model ${escapeHtml(start.model.provider)}/${escapeHtml(
+    start.model.identifier
+  )} · ${escapeHtml(start.toolMode)} tool mode · trace format v${start.version}</p>
+${sections.join("\n")}
+${outcome}
+<script>
+  // Highlights are drawn in screenshot pixels, so size each overlay to its image
+  for (const img of document.querySelectorAll(".screen img")) {
+    const fit = () =>
+      img.nextElementSibling.setAttribute("viewBox", "0 0 " + img.naturalWidth + " " + img.naturalHeight);
+    if (img.complete) fit();
+    else img.addEventListener("load", fit);
+  }
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write report.html next to the trace and return its path.
+ */
+export async function writeReport(recording: RecordedRun): Promise<string> {
+  const path = join(recording.dir, "report.html");
+  await writeFile(path, await renderReport(recording));
+  return path;
+}
@@ -0,0 +1,221 @@
+import type { ToolResult } from "@llm-browser-agent/tools";
+
+/**
+ * The source ledger: every page the agent opened or read during a run, so the
+ * final answer's citations can be mapped to pages and checked against them.
+ */
+
+export interface SourceEntry {
+  // The citation number, [1], [2], ... in the order pages were first opened
+  id: number;
+  url: string;
+  title: string;
+  // When the page was first opened and first read, as ISO timestamps
+  visitedAt: string;
+  readAt?: string;
+  // Passages of the answer quoted from this page
+  quotes: string[];
+}
+
+export interface CitationCheck {
+  // Ledger ids the answer cites, by number or by URL
+  cited: number[];
+  warnings: string[];
+}
+
+export interface SourceLedger {
+  readonly entries: SourceEntry[];
+  /**
+   * Record where a tool left the browser and, for tools that read the page,
+   * the text it returned. Returns the entry when the tool read from it, so
+   * the result can say how to cite it.
+   */
+  record(tool: string, result: ToolResult): SourceEntry | undefined;
+  // Text read from an entry's page, for checking quotes
+  textOf(id: number): string;
+}
+
+// Tools whose result is text read from the current page
+const READING_TOOLS = new Set([
+  "getContents",
+  "extract",
+  "exportTable",
+  "queryElementViaCssSelector",
+]);
+
+// Text kept per source for finding quotes, in characters
+const MAX_SOURCE_TEXT = 200_000;
+
+// Shortest quoted passage that is checked against the sources, in words
+const MIN_QUOTE_WORDS = 4;
+
+// Pages are the same source regardless of the fragment
+function sourceKey(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return undefined;
+    }
+    parsed.hash = "";
+    return parsed.href;
+  } catch {
+    return undefined;
+  }
+}
+
+// Lower case, one space between words, no quotes or punctuation to trip on
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[“”‘’"'`*_]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function createSourceLedger(): SourceLedger {
+  const entries: SourceEntry[] = [];
+  const byKey = new Map<string, SourceEntry>();
+  const texts = new Map<number, string>();
+
+  return {
+    entries,
+
+    record(tool, result) {
+      const key = result.url && sourceKey(result.url);
+      if (!key) return undefined;
+      let entry = byKey.get(key);
+      if (!entry) {
+        entry = {
+          id: entries.length + 1,
+          url: key,
+          title: result.title ?? "",
+          visitedAt: new Date().toISOString(),
+          quotes: [],
+        };
+        entries.push(entry);
+        byKey.set(key, entry);
+      } else if (result.title) {
+        entry.title = result.title;
+      }
+      if (!READING_TOOLS.has(tool)) return undefined;
+
+      entry.readAt ??= new Date().toISOString();
+      const text = `${texts.get(entry.id) ?? ""}\n${result.message}`;
+      texts.set(entry.id, text.slice(-MAX_SOURCE_TEXT));
+      return entry;
+    },
+
+    textOf(id) {
+      return texts.get(id) ?? "";
+    },
+  };
+}
+
+/** The line appended to a reading tool's result, telling how to cite the page. */
+export function formatSourceNote(entry: SourceEntry): string {
+  return `Source [${entry.id}]: cite this page as [${entry.id}] in your answer.`;
+}
+
+// Passages in quotation marks, long enough to be a quote rather than a term
+function findQuotes(answer: string): string[] {
+  return Array.from(
+    answer.matchAll(/“([^”]+)”|"([^"\n]+)"/g),
+    (match) => (match[1] ?? match[2] ?? "").trim()
+  ).filter((quote) => quote.split(/\s+/).length >= MIN_QUOTE_WORDS);
+}
+
+/**
+ * Map the answer's citations to the ledger: [n] markers and URLs. Quotes
+ * found in a page's text are added to its entry. Warns about citations of
+ * pages that were never opened or never read, quotes no page contains, and
+ * an answer without any citation although pages were read.
+ */
+export function checkCitations(
+  answer: string,
+  ledger: SourceLedger
+): CitationCheck {
+  const warnings: string[] = [];
+  const cited = new Set<number>();
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g)) {
+    for (const number of match[1]!.split(",").map(Number)) {
+      const entry = ledger.entries[number - 1];
+      if (!entry) {
+        warnings.push(`The answer cites [${number}], but no source has that number.`);
+      } else if (!cited.has(number)) {
+        cited.add(number);
+        if (!entry.readAt) {
+          warnings.push(
+            `The answer cites [${number}] (${entry.url}), which was opened but never read.`
+          );
+        }
+      }
+    }
+  }
+
+  for (const match of answer.matchAll(/https?:\/\/[^\s)\]>"']+/g)) {
+    const url = match[0].replace(/[.,;:!?]+$/, "");
+    const key = sourceKey(url);
+    const entry = ledger.entries.find(
+      (candidate) =>
+        candidate.url === key ||
+        candidate.url.replace(/\/$/, "") === key?.replace(/\/$/, "")
+    );
+    if (entry) {
+      cited.add(entry.id);
+    } else {
+      warnings.push(`The answer mentions ${url}, which was never opened.`);
+    }
+  }
+
+  for (const quote of findQuotes(answer)) {
+    const wanted = normalizeText(quote);
+    const source = ledger.entries.find((entry) =>
+      normalizeText(ledger.textOf(entry.id)).includes(wanted)
+    );
+    if (source) {
+      if (!source.quotes.includes(quote)) source.quotes.push(quote);
+      cited.add(source.id);
+    } else {
+      warnings.push(`The quote "${quote}" was not found in any page that was read.`);
+    }
+  }
+
+  if (cited.size === 0 && ledger.entries.some((entry) => entry.readAt)) {
+    warnings.push("The answer does not cite any of the pages that were read.");
+  }
+
+  return { cited: Array.from(cited).sort((a, b) => a - b), warnings };
+}
+
+/**
+ * The sources list printed after the answer: the cited pages first, then the
+ * others that were read, each with its title, URL, times and quotes.
+ */
+export function formatSources(
+  entries: SourceEntry[],
+  cited: number[]
+): string {
+  const describe = (entry: SourceEntry) => {
+    const read = entry.readAt ? `, read ${entry.readAt}` : ", not read";
+    const lines = [
+      `[${entry.id}] ${entry.title || "(untitled)"} - ${entry.url}`,
+      `    visited ${entry.visitedAt}${read}`,
+      ...entry.quotes.map((quote) => `    "${quote}"`),
+    ];
+    return lines.join("\n");
+  };
+  const citedEntries = entries.filter((entry) => cited.includes(entry.id));
+  const otherRead = entries.filter(
+    (entry) => entry.readAt && !cited.includes(entry.id)
+  );
+  const sections = [
+    citedEntries.length > 0
+      ? `Sources:\n${citedEntries.map(describe).join("\n")}`
+      : "Sources: none cited",
+  ];
+  if (otherRead.length > 0) {
+    sections.push(`Also read:\n${otherRead.map(describe).join("\n")}`);
+  }
+  return sections.join("\n\n");
+}
@@ -0,0 +1,120 @@
+import { describe, expect, test } from "bun:test";
+import {
+  clickByLabelSchema,
+  fillFormSchema,
+  navigateSchema,
+} from "@llm-browser-agent/tools";
+import { parseReply, repairJson } from "./tool-call-parser.ts";
+
+const schemas = {
+  clickByLabel: clickByLabelSchema,
+  fillForm: fillFormSchema,
+  navigate: navigateSchema,
+};
+
+describe("parseReply", () => {
+  const calls: [string, string, string, Record<string, unknown>][] = [
+    ["a plain call", '{"tool": "clickByLabel", "args": {"label": 3}}', "clickByLabel", { label: 3 }],
+    [
+      "a call in a code fence",
+      'I will click it.\n```json\n{"tool": "clickByLabel", "args": {"label": 3}}\n```',
+      "clickByLabel",
+      { label: 3 },
+    ],
+    ["single quotes", "{'tool': 'navigate', 'args': {'url': 'https://example.com'}}", "navigate", { url: "https://example.com" }],
+    ["smart quotes", "{“tool”: “clickByLabel”, “args”: {“label”: 3}}", "clickByLabel", { label: 3 }],
+    ["unquoted keys and a trailing comma", "{tool: 'clickByLabel', args: {label: 3,},}", "clickByLabel", { label: 3 }],
+    ["Python literals", "{'tool': 'fillForm', 'args': {'fields': [{'label': 2, 'value': True}]}}", "fillForm", { fields: [{ label: 2, value: true }] }],
+    ["the name/arguments shape", '{"name": "clickByLabel", "arguments": {"label": 3}}', "clickByLabel", { label: 3 }],
+    ["arguments as a JSON string", '{"name": "clickByLabel", "arguments": "{\\"label\\": 3}"}', "clickByLabel", { label: 3 }],
+    ["the function shape", '{"function": {"name": "clickByLabel", "arguments": {"label": 3}}}', "clickByLabel", { label: 3 }],
+    ["a call without args", '{"tool": "navigate", "args": {"url": "https://example.com"}}', "navigate", { url: "https://example.com" }],
+    ["a truncated object", '{"tool": "clickByLabel", "args": {"label": 3', "clickByLabel", { label: 3 }],
+    [
+      "a call truncated inside an array",
+      '{"tool": "fillForm", "args": {"fields": [{"label": 1, "value": "a"}, {"label": 2, "value": "b"',
+      "fillForm",
+      { fields: [{ label: 1, value: "a" }, { label: 2, value: "b" }] },
+    ],
+    ["a quoted number", '{"tool": "clickByLabel", "args": {"label": "3"}}', "clickByLabel", { label: 3 }],
+    [
+      "quoted numbers inside an array of objects",
+      '{"tool": "fillForm", "args": {"fields": [{"label": "3", "value": "42"}]}}',
+      "fillForm",
+      // Only the label is a number in the schema; the value stays text
+      { fields: [{ label: 3, value: "42" }] },
+    ],
+  ];
+
+  for (const [shape, reply, tool, args] of calls) {
+    test(`reads ${shape}`, () => {
+      const parsed = parseReply(reply, schemas);
+      expect(parsed.kind).toBe("toolCall");
+      if (parsed.kind !== "toolCall") return;
+      expect(parsed.call.tool).toBe(tool);
+      expect(parsed.call.args).toMatchObject(args);
+      expect(parsed.ignored).toBe(0);
+    });
+  }
+
+  test("runs the first of several calls and counts the rest", () => {
+    const parsed = parseReply(
+      '{"tool": "clickByLabel", "args": {"label": 1}}\n{"tool": "clickByLabel", "args": {"label": 2}}\n{"tool": "navigate", "args": {"url": "https://example.com"}}',
+      schemas
+    );
+    expect(parsed).toMatchObject({
+      kind: "toolCall",
+      call: { tool: "clickByLabel", args: { label: 1 } },
+      ignored: 2,
+    });
+  });
+
+  const finals: [string, string][] = [
+    ["plain text", "The page title is Example Domain."],
+    ["a data object that isn't a call", 'The product is {"name": "Widget", "price": 3}.'],
+    ["text with braces but no JSON", "Use {curly braces} for sets."],
+  ];
+
+  for (const [shape, reply] of finals) {
+    test(`treats ${shape} as the final answer`, () => {
+      expect(parseReply(reply, schemas)).toEqual({ kind: "final", content: reply });
+    });
+  }
+
+  const malformed: [string, string, string][] = [
+    ["args without a tool", '{"args": {"label": 3}}', 'missing the "tool" field'],
+    ["an empty tool name", '{"tool": "", "args": {}}', "non-empty string"],
+    ["args that aren't an object", '{"tool": "clickByLabel", "args": [3]}', "must be a JSON object"],
+    ["an unknown tool", '{"tool": "teleport", "args": {}}', 'Unknown tool "teleport"'],
+    ["invalid arguments", '{"tool": "clickByLabel", "args": {"label": "three"}}', "Invalid arguments for clickByLabel: args.label"],
+    ["a missing argument", '{"tool": "navigate", "args": {}}', "args.url"],
+    ["unparseable JSON", '{"tool": "clickByLabel", "args": {"label": 3]]]}', "Could not parse the tool call"],
+  ];
+
+  for (const [shape, reply, error] of malformed) {
+    test(`reports ${shape}`, () => {
+      const parsed = parseReply(reply, schemas);
+      expect(parsed.kind).toBe("malformed");
+      if (parsed.kind !== "malformed") return;
+      expect(parsed.errors.join("\n")).toContain(error);
+    });
+  }
+});
+
+describe("repairJson", () => {
+  const repairs: [string, string, unknown][] = [
+    ["a missing brace", '{"a": {"b": 1}', { a: { b: 1 } }],
+    ["a missing bracket", '{"a": [1, 2', { a: [1, 2] }],
+    ["brackets and braces in stack order", '{"a": [{"b": [1, {"c": 2', { a: [{ b: [1, { c: 2 }] }] }],
+    ["a trailing comma before the closers", '{"a": [1, 2,', { a: [1, 2] }],
+    ["a truncated string", '{"a": "hel', { a: "hel" }],
+    ["brackets inside strings", '{"a": "[{", "b": [1', { a: "[{", b: [1] }],
+    ["escaped single quotes", "{'a': 'it\\'s'}", { a: "it's" }],
+  ];
+
+  for (const [shape, text, expected] of repairs) {
+    test(`closes ${shape}`, () => {
+      expect(JSON.parse(repairJson(text))).toEqual(expected);
+    });
+  }
+});
@@ -0,0 +1,307 @@
+import type { ToolSchemas } from "@llm-browser-agent/tools";
+
+export interface ParsedToolCall {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Outcome of reading a text-protocol reply:
+ * - toolCall: a valid call (only the first one is executed; `ignored` counts the rest)
+ * - malformed: the reply tried to call a tool but the call can't be used
+ * - final: no tool call at all, the reply is the final answer
+ */
+export type ParsedReply =
+  | { kind: "toolCall"; call: ParsedToolCall; ignored: number }
+  | { kind: "malformed"; errors: string[] }
+  | { kind: "final"; content: string };
+
+export type ValidationResult =
+  | { ok: true; args: Record<string, unknown> }
+  | { ok: false; error: string };
+
+// Something that looks like an attempt at {"tool": ...}, even if it isn't valid JSON
+const TOOL_KEY_PATTERN = /["'“”]?\btool["'“”]?\s*:/;
+
+/**
+ * Return the index of the brace closing the object that starts at `start`,
+ * skipping braces inside single- or double-quoted strings. -1 if unbalanced.
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === "{") depth++;
+    else if (ch === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Find every top-level balanced {...} block in the reply, including ones
+ * inside ```json fences. A trailing unbalanced block (a truncated reply) is
+ * returned as-is so repair can try to close it.
+ */
+export function findJsonCandidates(content: string): string[] {
+  const candidates: string[] = [];
+  let start = content.indexOf("{");
+
+  while (start !== -1) {
+    const end = findClosingBrace(content, start);
+    if (end === -1) {
+      candidates.push(content.slice(start));
+      break;
+    }
+    candidates.push(content.slice(start, end + 1));
+    start = content.indexOf("{", end + 1);
+  }
+  return candidates;
+}
+
+// Fix-ups for text outside of string literals
+function repairBareSegment(segment: string): string {
+  return segment
+    .replace(/([{,]\s*)([A-Za-z_$][\w$]*)\s*:/g, '$1"$2":') // unquoted keys
+    .replace(/,\s*([}\]])/g, "$1") // trailing commas
+    .replace(/\bTrue\b/g, "true")
+    .replace(/\bFalse\b/g, "false")
+    .replace(/\bNone\b/g, "null");
+}
+
+/**
+ * Best-effort repair of the JSON mistakes models commonly make: smart quotes,
+ * single-quoted strings, unquoted keys, trailing commas, Python literals and
+ * missing closing braces and brackets, closed innermost first.
+ */
+export function repairJson(text: string): string {
+  const normalized = text
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'");
+
+  let output = "";
+  let bare = "";
+  // Closers for the objects and arrays still open, innermost last
+  const open: string[] = [];
+
+  for (let i = 0; i < normalized.length; i++) {
+    const ch = normalized[i]!;
+
+    if (ch !== '"' && ch !== "'") {
+      if (ch === "{") open.push("}");
+      if (ch === "[") open.push("]");
+      if (ch === "}" || ch === "]") open.pop();
+      bare += ch;
+      continue;
+    }
+
+    // A string literal: flush the bare text, then copy the string as double-quoted JSON
+    output += repairBareSegment(bare);
+    bare = "";
+
+    let value = "";
+    let j = i + 1;
+    for (; j < normalized.length; j++) {
+      const c = normalized[j]!;
+      if (c === "\\" && j + 1 < normalized.length) {
+        const next = normalized[j + 1]!;
+        // \' is not a valid JSON escape
+        value += next === "'" ? "'" : c + next;
+        j++;
+        continue;
+      }
+      if (c === ch) break;
+      value += c === '"' ? '\\"' : c;
+    }
+    output += `"${value}"`;
+    i = j;
+  }
+
+  // Closed together with the last bare text, so a trailing comma goes too
+  return output + repairBareSegment(bare + open.reverse().join(""));
+}
+
+function parseLenient(candidate: string): unknown {
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(repairJson(candidate));
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalize the call shapes models produce ({"tool", "args"}, {"name", "arguments"},
+ * {"function": {...}}) into a ParsedToolCall. Returns null if the object isn't a
+ * tool call at all, or an error string if it is one but unusable.
+ */
+function toToolCall(value: unknown): ParsedToolCall | string | null {
+  if (!isRecord(value)) return null;
+
+  const fn = isRecord(value.function) ? value.function : undefined;
+  // A bare "name" only counts together with arguments, so data objects aren't mistaken for calls
+  const hasArguments = "arguments" in value || "parameters" in value;
+  const tool = value.tool ?? (hasArguments ? value.name : undefined) ?? fn?.name;
+  let args = value.args ?? value.arguments ?? value.parameters ?? fn?.arguments;
+
+  if (tool === undefined) {
+    return "args" in value ? 'Tool call is missing the "tool" field.' : null;
+  }
+  if (typeof tool !== "string" || !tool) {
+    return 'The "tool" field must be a non-empty string with the tool name.';
+  }
+
+  if (typeof args === "string") {
+    try {
+      args = parseLenient(args);
+    } catch {
+      return `Arguments for ${tool} are not a valid JSON object.`;
+    }
+  }
+  if (args === undefined || args === null) args = {};
+  if (!isRecord(args)) {
+    return `"args" for ${tool} must be a JSON object.`;
+  }
+  return { tool, args };
+}
+
+type ToolSchema = ToolSchemas[string];
+
+// Models often quote numbers, e.g. {"label": "5"}, also inside arrays of
+// objects like fillForm's fields. Only values the schema wants as numbers
+// are converted.
+function coerceNumericStrings(value: unknown, schema: ToolSchema): unknown {
+  const def = schema._def;
+  switch (def.typeName) {
+    case "ZodOptional":
+    case "ZodNullable":
+    case "ZodDefault":
+      return coerceNumericStrings(value, def.innerType);
+    case "ZodEffects":
+      return coerceNumericStrings(value, def.schema);
+    case "ZodNumber":
+      return typeof value === "string" && /^-?\d+(\.\d+)?$/.test(value.trim())
+        ? Number(value)
+        : value;
+    case "ZodArray":
+      return Array.isArray(value)
+        ? value.map((item) => coerceNumericStrings(item, def.type))
+        : value;
+    case "ZodObject": {
+      if (!isRecord(value)) return value;
+      const shape: Record<string, ToolSchema> = def.shape();
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          shape[key] ? coerceNumericStrings(item, shape[key]) : item,
+        ])
+      );
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Validate a tool call against the tool's zod schema. On success the parsed
+ * args (with defaults applied) are returned.
+ */
+export function validateToolCall(
+  tool: string,
+  args: Record<string, unknown>,
+  schemas: ToolSchemas
+): ValidationResult {
+  const schema = schemas[tool];
+  if (!schema) {
+    return {
+      ok: false,
+      error: `Unknown tool "${tool}". Available tools: ${Object.keys(
+        schemas
+      ).join(", ")}.`,
+    };
+  }
+
+  let result = schema.safeParse(args);
+  if (!result.success) {
+    const coerced = schema.safeParse(coerceNumericStrings(args, schema));
+    if (coerced.success) result = coerced;
+  }
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${["args", ...issue.path].join(".")}: ${issue.message}`)
+      .join("; ");
+    return { ok: false, error: `Invalid arguments for ${tool}: ${issues}` };
+  }
+  return { ok: true, args: result.data };
+}
+
+/**
+ * Read a text-protocol reply and decide whether it is a tool call, a malformed
+ * tool call or the final answer.
+ */
+export function parseReply(content: string, schemas: ToolSchemas): ParsedReply {
+  const calls: ParsedToolCall[] = [];
+  const errors: string[] = [];
+
+  for (const candidate of findJsonCandidates(content)) {
+    let value: unknown;
+    try {
+      value = parseLenient(candidate);
+    } catch {
+      if (TOOL_KEY_PATTERN.test(candidate)) {
+        errors.push(
+          `Could not parse the tool call as JSON: ${candidate.slice(0, 200)}`
+        );
+      }
+      continue;
+    }
+
+    const call = toToolCall(value);
+    if (call === null) continue;
+    if (typeof call === "string") {
+      errors.push(call);
+      continue;
+    }
+
+    const validation = validateToolCall(call.tool, call.args, schemas);
+    if (validation.ok) {
+      calls.push({ tool: call.tool, args: validation.args });
+    } else {
+      errors.push(validation.error);
+    }
+  }
+
+  const [first, ...rest] = calls;
+  if (first) {
+    return { kind: "toolCall", call: first, ignored: rest.length };
+  }
+  if (errors.length > 0) {
+    return { kind: "malformed", errors };
+  }
+  return { kind: "final", content };
+}
+
+/**
+ * Message sent back to the model when its tool call can't be used, asking for a corrected one.
+ */
+export function formatRepairMessage(errors: string[]): string {
+  return `Tool call error: your last reply tried to call a tool, but the call could not be used.
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Reply with exactly one corrected tool call as a JSON object, for example:
+{"tool": "clickByLabel", "args": {"label": 3}}
+If you are done, reply with your final answer as plain text without any JSON.`;
+}
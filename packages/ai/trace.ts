@@ -0,0 +1,183 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import type {
+  Geometry,
+  LabeledElement,
+  PolicyDecision,
+} from "@llm-browser-agent/tools";
+import type { ContextUsage } from "./context.ts";
+import type { ToolMode } from "./prompt.ts";
+import type { CitationCheck, SourceEntry } from "./sources.ts";
+import type {
+  ChatImage,
+  ChatMessage,
+  ToolCallRequest,
+} from "./providers/index.ts";
+
+/**
+ * Version of the on-disk trace format. Bump it whenever an event changes shape,
+ * so tools reading traces can tell which layout they are looking at.
+ */
+export const TRACE_FORMAT_VERSION = 7;
+
+/**
+ * A chat message as stored in a trace: images are replaced by the path of the
+ * saved screenshot, relative to the trace directory.
+ */
+export type TracedMessage =
+  | { role: "system" | "user"; content: string; images?: string[] }
+  | { role: "assistant"; content: string; toolCalls?: ToolCallRequest[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+/**
+ * One line of trace.jsonl. Every event carries `time` (epoch milliseconds);
+ * events inside a round also carry the 1-based `round`.
+ */
+export type TraceEvent =
+  | {
+      type: "run.start";
+      version: number;
+      runId: string;
+      prompt: string;
+      toolMode: ToolMode;
+      model: { provider: string; identifier: string };
+      // Element boxes are in page space; this maps them onto the screenshots
+      geometry: Geometry;
+      time: number;
+    }
+  | { type: "round.start"; round: number; time: number }
+  // Messages appended to the chat since the previous request, starting at
+  // `startIndex`; concatenating all of them gives the full chat. `context`
+  // tells how that chat was reduced to fit the model's context window.
+  | {
+      type: "model.request";
+      round: number;
+      startIndex: number;
+      messages: TracedMessage[];
+      context?: ContextUsage;
+      time: number;
+    }
+  | {
+      type: "model.response";
+      round: number;
+      content: string;
+      toolCalls: ToolCallRequest[];
+      durationMs: number;
+      time: number;
+    }
+  | {
+      type: "tool.call";
+      round: number;
+      // "text" for calls parsed from the reply, "native" for function calls
+      source: ToolMode;
+      callId?: string;
+      tool: string;
+      args: Record<string, unknown>;
+      time: number;
+    }
+  | { type: "tool.malformed"; round: number; errors: string[]; time: number }
+  | {
+      type: "tool.result";
+      round: number;
+      callId?: string;
+      tool: string;
+      message: string;
+      url?: string;
+      screenshot?: string;
+      elements?: LabeledElement[];
+      // Browsing policy decisions made for the call, refusals included
+      policy?: PolicyDecision[];
+      durationMs: number;
+      time: number;
+    }
+  | {
+      type: "run.end";
+      stopReason: string;
+      answer?: string;
+      citations?: CitationCheck;
+      rounds: number;
+      // The source ledger: every page opened, numbered for citation
+      sources: SourceEntry[];
+      time: number;
+    };
+
+export type TraceEventOfType<T extends TraceEvent["type"]> = Extract<
+  TraceEvent,
+  { type: T }
+>;
+
+// Distributes Omit over the union so each event keeps its own fields
+type WithoutTime<T> = T extends unknown ? Omit<T, "time"> : never;
+
+export interface TraceRecorder {
+  // Directory holding trace.jsonl and screenshots/
+  readonly dir: string;
+  readonly runId: string;
+  record(event: WithoutTime<TraceEvent>): Promise<void>;
+  // Save a screenshot under a unique name; returns its path relative to `dir`
+  saveImage(image: ChatImage): Promise<string>;
+  // Convert chat messages to their traced form, saving any images not yet saved
+  traceMessages(messages: ChatMessage[]): Promise<TracedMessage[]>;
+}
+
+/**
+ * Start a trace for a new run in `<baseDir>/<runId>/`.
+ */
+export async function createTraceRecorder(
+  baseDir: string
+): Promise<TraceRecorder> {
+  const runId = new Date().toISOString().replace(/[:.]/g, "-");
+  const dir = join(baseDir, runId);
+  await mkdir(join(dir, "screenshots"), { recursive: true });
+
+  const tracePath = join(dir, "trace.jsonl");
+  // Screenshots already on disk, keyed by their original filename
+  const savedImages = new Map<string, string>();
+  let imageCount = 0;
+
+  async function saveImage(image: ChatImage): Promise<string> {
+    const existing = savedImages.get(image.filename);
+    if (existing) return existing;
+
+    imageCount++;
+    const path = join(
+      "screenshots",
+      `${String(imageCount).padStart(4, "0")}-${image.filename}`
+    );
+    await Bun.write(join(dir, path), Buffer.from(image.base64, "base64"));
+    savedImages.set(image.filename, path);
+    return path;
+  }
+
+  return {
+    dir,
+    runId,
+
+    async record(event) {
+      await appendFile(
+        tracePath,
+        `${JSON.stringify({ ...event, time: Date.now() })}\n`
+      );
+    },
+
+    saveImage,
+
+    async traceMessages(messages) {
+      return Promise.all(
+        messages.map(async (message): Promise<TracedMessage> => {
+          if (message.role === "assistant" || message.role === "tool") {
+            return message;
+          }
+          if (!message.images?.length) {
+            return { role: message.role, content: message.content };
+          }
+          return {
+            role: message.role,
+            content: message.content,
+            images: await Promise.all(message.images.map(saveImage)),
+          };
+        })
+      );
+    },
+  };
+}
@@ -1,39 +1,644 @@
-import { type LMStudioClient, type FileHandle, type LLMTool } from "@lmstudio/sdk";
-import type { Page } from "playwright";
+import type { ZodTypeAny } from "zod";
+import { getElementCategory, type LabeledElement } from "./elements.ts";
+import { toPagePoint, type Geometry } from "./geometry.ts";
 import {
+  checkAction,
+  checkUrl,
+  refuseUnknownTarget,
+  targetAt,
+  type ActionRule,
+  type PolicyDecision,
+  type PolicyTarget,
+} from "./policy.ts";
+import {
+  MAX_FILE_CHARS,
+  formatSize,
+  type DownloadInfo,
+  type WorkspaceFileContents,
+} from "./workspace.ts";
+import {
+  type FieldValue,
+  type FormToolResult,
+  type GetContentsResult,
+  type LabeledScreenshotData,
+  type ScreenshotData,
   navigate,
   getContents,
   reload,
   queryElementViaCssSelector,
   screenshot,
+  labeledScreenshot,
+  listElements,
   click,
+  clickByLabel,
+  hoverByLabel,
+  dragByLabel,
+  typeByLabel,
+  selectOptionByLabel,
+  setCheckedByLabel,
+  fillForm,
   scroll,
   type as typeText,
+  keyboard,
+  press,
+  listTabs,
+  switchTab,
+  openTab,
+  closeTab,
+  goBack,
+  goForward,
+  getHistory,
+  uploadFileByLabel,
+  readDownloadedFile,
+  respondToDialog,
+  waitFor,
+  extract,
+  exportTable,
+  navigateSchema,
+  getContentsSchema,
+  reloadSchema,
+  queryElementViaCssSelectorSchema,
+  screenshotSchema,
+  labeledScreenshotSchema,
+  listElementsSchema,
+  clickByLabelSchema,
+  hoverByLabelSchema,
+  dragByLabelSchema,
+  clickSchema,
+  typeByLabelSchema,
+  selectOptionByLabelSchema,
+  setCheckedByLabelSchema,
+  fillFormSchema,
+  scrollSchema,
+  typeSchema,
+  keyboardSchema,
+  pressSchema,
+  listTabsSchema,
+  switchTabSchema,
+  openTabSchema,
+  closeTabSchema,
+  goBackSchema,
+  goForwardSchema,
+  getHistorySchema,
+  uploadFileByLabelSchema,
+  readDownloadedFileSchema,
+  respondToDialogSchema,
+  waitForSchema,
+  extractSchema,
+  exportTableSchema,
+  type ExportTableResult,
 } from "./browser.ts";
+import { describeTable, type ExtractResult, type JsonSchema } from "./extract.ts";
+import type {
+  BrowserSession,
+  DialogInfo,
+  NavigationEntry,
+  TabInfo,
+} from "./session.ts";
+
+/**
+ * JSON-schema function definition in the shape used by OpenAI-style tool calling.
+ * Providers translate this into whatever their native API expects.
+ */
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: {
+      type: "object";
+      properties: Record<string, unknown>;
+      required?: string[];
+    };
+  };
+}
 
 export interface ToolResult {
   message: string;
-  image?: FileHandle;
+  image?: ScreenshotData;
+  // Elements labeled in `image`, when it is a labeled screenshot
+  elements?: LabeledElement[];
+  // Those elements formatted for the model. Tools leave it out of `message`;
+  // it is added after the message once the screenshot is final
+  elementList?: string;
+  // URL of the active tab after the tool ran
+  url?: string;
+  // Title of the active tab after the tool ran
+  title?: string;
+  // Browsing policy decisions made for the tool, for the log
+  policy?: PolicyDecision[];
 }
 
 type ToolImplementation = (args: Record<string, unknown>) => Promise<string | ToolResult>;
 
+// Zod schema per tool name, used to validate arguments before they reach an implementation
+export type ToolSchemas = Record<string, ZodTypeAny>;
+
 export interface BrowserToolsResult {
-  definitions: LLMTool[];
+  definitions: ToolDefinition[];
+  schemas: ToolSchemas;
   implementations: Record<string, ToolImplementation>;
+  // The session's geometry, so prompts can describe the screenshots the tools return
+  geometry: Geometry;
+}
+
+// Helper to get color indicator for element type
+function getColorIndicator(element: LabeledElement): string {
+  switch (getElementCategory(element)) {
+    case "link":
+      return "🔵"; // Blue for links
+    case "input":
+      return "🟢"; // Green for inputs, checkboxes, selects
+    case "button":
+      return "🟠"; // Orange for buttons
+    default:
+      return "🟣"; // Purple for other
+  }
+}
+
+function describeStates(element: LabeledElement): string[] {
+  const states: string[] = [];
+  if (element.disabled) states.push("disabled");
+  if (element.checked === "mixed") states.push("partially checked");
+  else if (element.checked !== undefined) {
+    states.push(element.checked ? "checked" : "unchecked");
+  }
+  if (element.expanded !== undefined) {
+    states.push(element.expanded ? "expanded" : "collapsed");
+  }
+  if (element.selected) states.push("selected");
+  return states;
+}
+
+const MAX_HREF_LENGTH = 100;
+
+// Frames are named by host, e.g. "consent.example.com"
+function describeFrame(url: string): string {
+  try {
+    return new URL(url).host || url;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Format the detected elements as the text list the model reads next to the
+ * labeled screenshot: role, accessible name, value or placeholder, state, the
+ * iframe it is in and link target, e.g. `🟠 [3] button: "Submit" (disabled)`.
+ */
+export function formatElementList(elements: LabeledElement[]): string {
+  if (elements.length === 0) {
+    return "No clickable elements detected on this page.";
+  }
+  const lines = elements.map((el) => {
+    // Elements from older traces only have type and text
+    const role = el.role ?? el.type;
+    const kind = el.type.startsWith("input[") ? `${role} ${el.type}` : role;
+    const parts = [
+      `${getColorIndicator(el)} [${el.label}] ${kind}: "${
+        el.name || el.text || "(no text)"
+      }"`,
+    ];
+    if (el.value) parts.push(`value="${el.value}"`);
+    else if (el.placeholder) parts.push(`placeholder="${el.placeholder}"`);
+    const states = describeStates(el);
+    if (states.length > 0) parts.push(`(${states.join(", ")})`);
+    if (el.frame) parts.push(`[in iframe ${describeFrame(el.frame)}]`);
+    if (el.visibility === "partial") parts.push("[partly visible]");
+    if (el.visibility === "offscreen") parts.push("[off-screen]");
+    if (el.href) {
+      parts.push(
+        `-> ${
+          el.href.length > MAX_HREF_LENGTH
+            ? `${el.href.slice(0, MAX_HREF_LENGTH)}...`
+            : el.href
+        }`
+      );
+    }
+    return parts.join(" ");
+  });
+  return `Clickable elements (🔵=link, 🟢=input, 🟠=button, 🟣=other):\n${lines.join(
+    "\n"
+  )}`;
+}
+
+// The element list for a labeled screenshot, pointing out elements it doesn't show
+function formatScreenshotElements({
+  elements,
+  totalElements,
+}: LabeledScreenshotData): string {
+  const list = formatElementList(elements);
+  const unlabeled = totalElements - elements.length;
+  if (unlabeled <= 0) return list;
+  return `${list}\n${unlabeled} more elements are not labeled on this screenshot (off-screen or beyond the first ${elements.length}); use listElements to see them. Their labels can be clicked too.`;
+}
+
+/**
+ * Format field values for the model, e.g. `[5] textbox "Email": "a@b.com"`.
+ */
+export function formatFieldValues(fields: FieldValue[]): string {
+  return fields
+    .map((field) => {
+      if (!field.role) return `[${field.label}] ${field.error}`;
+      const head = `[${field.label}] ${field.role} "${field.name}"`;
+      const value =
+        field.value === undefined ? "(could not be read)" : `"${field.value}"`;
+      return field.error
+        ? `${head}: failed - ${field.error}\n  now ${value}`
+        : `${head}: ${value}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Format finished downloads for the model, e.g.
+ * `downloads/report.csv (12.3 KB, text/csv) from https://...`.
+ */
+export function formatDownloads(downloads: DownloadInfo[]): string {
+  const lines = downloads.map((download) =>
+    download.path
+      ? `${download.path} (${formatSize(download.size ?? 0)}, ${download.mimeType}) from ${download.url}`
+      : `"${download.suggestedFilename}" from ${download.url} failed: ${download.error}`
+  );
+  const saved = downloads.some((download) => download.path);
+  return `Download(s):\n${lines.join("\n")}${
+    saved ? "\nUse readDownloadedFile to read a downloaded file." : ""
+  }`;
+}
+
+/**
+ * Format a workspace file read by readDownloadedFile, saying how to read on
+ * if it was cut.
+ */
+export function formatFileContents(file: WorkspaceFileContents): string {
+  const head = `${file.path} (${formatSize(file.size)}): ${file.summary}`;
+  if (file.format === "binary") return head;
+  const end = file.offset + file.content.length;
+  const range =
+    file.offset > 0 || end < file.total
+      ? `\nShowing characters ${file.offset}-${end} of ${file.total}.${
+          end < file.total ? ` Use offset ${end} to read on.` : ""
+        }`
+      : "";
+  return `${head}${range}\n\n${file.content}`;
+}
+
+/**
+ * Format a chunk of page contents for the model, with an outline of the other
+ * chunks so it can tell which one holds the section it wants.
+ */
+export function formatReadableContent(result: GetContentsResult): string {
+  const lines = [`${result.title || "(untitled)"} - ${result.url}`];
+  const view = result.mode === "reader" ? "Reader view" : "Text";
+  if (result.pages === 1) {
+    lines.push(`${view} of ${result.source}:`);
+  } else {
+    lines.push(
+      `${view} of ${result.source}, part ${result.page} of ${result.pages}. Parts:`
+    );
+    result.outline.forEach((headings, i) => {
+      const shown = headings.slice(0, 5).join("; ");
+      const more = headings.length > 5 ? "; ..." : "";
+      const marker = i + 1 === result.page ? " (this part)" : "";
+      lines.push(`  ${i + 1}.${marker} ${shown ? shown + more : "(no headings)"}`);
+    });
+  }
+  lines.push("", result.content || "(no text)");
+  if (result.page < result.pages) {
+    lines.push("", `Use getContents with page ${result.page + 1} to read on.`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format extracted records for the model, with the reasons records failed
+ * validation and the fields available for properties that weren't found.
+ */
+export function formatExtractResult(result: ExtractResult): string {
+  if (!result.source) {
+    return `No table, list or group of cards on the page has fields matching the schema (${result.unmatched.join(
+      ", "
+    )}). Found: ${result.others.join(", ") || "nothing"}.`;
+  }
+  const read = result.records.length + result.invalid.length;
+  const lines = [
+    `Extracted ${result.records.length} valid record${
+      result.records.length === 1 ? "" : "s"
+    } from ${result.source}${read < result.total ? ` (first ${read} of ${result.total})` : ""}:`,
+    JSON.stringify(result.records, null, 2),
+  ];
+  if (result.invalid.length > 0) {
+    lines.push("", `${result.invalid.length} failed validation:`);
+    for (const record of result.invalid) {
+      lines.push(`- Record ${record.index}: ${record.issues.join("; ")}`);
+    }
+  }
+  if (result.unmatched.length > 0) {
+    lines.push(
+      "",
+      `Not found on the page: ${result.unmatched.join(", ")}. Fields there: ${result.available.join(", ")}.`
+    );
+  }
+  if (result.others.length > 0) {
+    lines.push(`Other tables and lists on the page: ${result.others.join(", ")}.`);
+  }
+  return lines.join("\n");
+}
+
+// How much of an exported file is shown when it was also saved
+const EXPORT_PREVIEW_CHARS = 2000;
+
+/** Format a table export: where it went, its shape, and the contents. */
+export function formatTableExport(result: ExportTableResult): string {
+  const { table } = result;
+  const rows = table.rows.length;
+  const shape = `${rows} row${rows === 1 ? "" : "s"}, columns: ${table.headers.join(", ")}`;
+  const others = result.tables.filter((other) => other !== table);
+  const limit = result.path ? EXPORT_PREVIEW_CHARS : MAX_FILE_CHARS;
+  const content =
+    result.content.length > limit
+      ? `${result.content.slice(0, limit)}\n[... ${result.content.length - limit} more characters]`
+      : result.content;
+  return [
+    `${result.path ? `Saved ${describeTable(table)} to ${result.path}` : `Exported ${describeTable(table)}`} as ${result.format.toUpperCase()} (${shape}).`,
+    ...(others.length > 0
+      ? [`Other tables on the page: ${others.map(describeTable).join(", ")}.`]
+      : []),
+    "",
+    content,
+  ].join("\n");
+}
+
+// What setting a form field amounts to, for the policy's action rules
+function fieldAction(element: LabeledElement): "check" | "select" | "type" {
+  if (["checkbox", "radio", "switch"].includes(element.role)) return "check";
+  if (element.type === "select" || element.role === "listbox") return "select";
+  return "type";
+}
+
+/**
+ * Format a policy refusal for the model as fields it can read reliably, and
+ * say not to try getting around it.
+ */
+export function formatPolicyRefusal(decision: PolicyDecision): string {
+  return [
+    "POLICY REFUSAL",
+    `action: ${decision.action}`,
+    `target: ${decision.target}`,
+    `rule: ${decision.rule}`,
+    `reason: ${decision.reason}`,
+    "This is not allowed in this session. Don't try to get around it: continue another way, or say in your answer that it was refused.",
+  ].join("\n");
+}
+
+/**
+ * Format a dialog for the model: one waiting for an answer says how to give
+ * it, one the policy answered says what it did.
+ */
+export function formatDialog(dialog: DialogInfo): string {
+  const text = dialog.message ? ` "${dialog.message}"` : "";
+  const shown =
+    dialog.type === "beforeunload"
+      ? `a dialog asking whether to leave the page${text}`
+      : `${dialog.type === "alert" ? "an" : "a"} ${dialog.type} dialog${text}`;
+  if (dialog.outcome) {
+    return `Tab [${dialog.tabId}] showed ${shown}; it was ${dialog.outcome} automatically.`;
+  }
+  const answers =
+    dialog.type === "beforeunload"
+      ? '"accept" leaves the page, "dismiss" stays'
+      : dialog.type === "prompt"
+        ? `"accept" with promptText to enter text${
+            dialog.defaultValue ? ` (prefilled: "${dialog.defaultValue}")` : ""
+          }, "dismiss" cancels`
+        : '"accept" is OK, "dismiss" is Cancel';
+  return `Tab [${dialog.tabId}] shows ${shown}. The page is blocked until you answer it with respondToDialog (${answers}).`;
+}
+
+/**
+ * Format the open tabs for the model, marking the active one.
+ */
+export function formatTabList(tabs: TabInfo[]): string {
+  const lines = tabs.map(
+    (tab) =>
+      `${tab.active ? "*" : " "} [${tab.id}] "${tab.title || "(no title)"}" - ${tab.url}`
+  );
+  return `Open tabs (* = active):\n${lines.join("\n")}`;
+}
+
+/**
+ * Format a tab's navigation timeline for the model, oldest first.
+ */
+export function formatNavigationTimeline(
+  tabId: number,
+  entries: NavigationEntry[]
+): string {
+  if (entries.length === 0) {
+    return `Tab [${tabId}] has not navigated anywhere yet.`;
+  }
+  const lines = entries.map(
+    (entry, index) =>
+      `${index + 1}. ${new Date(entry.timestamp).toISOString()} "${
+        entry.title || "(no title)"
+      }" - ${entry.url}`
+  );
+  return `Navigation timeline of tab [${tabId}] (oldest first):\n${lines.join("\n")}`;
 }
 
 /**
- * Creates browser tools for LM Studio SDK.
+ * Creates provider-neutral browser tools.
  * Returns both tool definitions (for the model) and implementations (for execution).
+ * Tools that change the page respond with a labeled screenshot and the element list,
+ * so the model can keep using clickByLabel. Tabs opened by any action (popups,
+ * target=_blank links) are reported in the result of that action.
  */
-export function createBrowserTools(page: Page, client: LMStudioClient): BrowserToolsResult {
-  const definitions: LLMTool[] = [
+export function createBrowserTools(session: BrowserSession): BrowserToolsResult {
+  // Combine the message of a tool that took its own labeled screenshot with it
+  const withScreenshot = (result: {
+    message: string;
+    screenshot: LabeledScreenshotData;
+  }): ToolResult => ({
+    message: result.message,
+    image: result.screenshot,
+    elements: result.screenshot.elements,
+    elementList: formatScreenshotElements(result.screenshot),
+  });
+
+  // Take a labeled screenshot and combine it with the action's message
+  const withLabeledScreenshot = async (message: string): Promise<ToolResult> =>
+    withScreenshot({ message, screenshot: await labeledScreenshot(session) });
+
+  // Replace the screenshot of a page the tab has left since: a labeled one
+  // with a new one, a plain one is dropped
+  const retakeScreenshot = async (result: ToolResult): Promise<ToolResult> => {
+    if (result.elementList === undefined) {
+      return { ...result, image: undefined, elements: undefined };
+    }
+    return { ...result, ...(await withLabeledScreenshot(result.message)) };
+  };
+
+  // Combine a form tool's message and the values its fields now have with its screenshot
+  const withFieldValues = (result: FormToolResult): ToolResult => {
+    const values =
+      result.fields.length > 0
+        ? `\n\nField values now:\n${formatFieldValues(result.fields)}`
+        : "";
+    return withScreenshot({ ...result, message: `${result.message}${values}` });
+  };
+
+  // Describe tabs the page opened on its own that the model hasn't heard about yet
+  const describeNewTabs = async (): Promise<string | undefined> => {
+    const newTabs = session.takeNewTabs().filter((tab) => tab !== session.page);
+    if (newTabs.length === 0) return undefined;
+    const lines = await Promise.all(
+      newTabs.map(
+        async (tab) =>
+          `[${session.tabId(tab)}] "${await tab.title().catch(() => "")}" - ${tab.url()}`
+      )
+    );
+    return `New tab(s) opened (use switchTab to view):\n${lines.join("\n")}`;
+  };
+
+  // Check a tool call against the browsing policy before it runs: the URL it
+  // opens and the elements it acts on. Returns every decision, refusals too.
+  const checkPolicy = async (
+    tool: string,
+    args: Record<string, unknown>
+  ): Promise<PolicyDecision[]> => {
+    const { policy, page } = session;
+    const labeled = (label: unknown) =>
+      session.lastDetectedElements.find((element) => element.label === label);
+    const decisions: PolicyDecision[] = [];
+    const onElement = (
+      action: ActionRule["actions"][number],
+      element: PolicyTarget | undefined
+    ) => {
+      if (!element) return;
+      decisions.push(checkAction(policy, action, element));
+      // A click on a link opens it, so its target is checked up front
+      if (action === "click" && element.href) {
+        decisions.push(checkUrl(policy, element.href));
+      }
+    };
+
+    // The element an unlabeled action would hit; refused when it can't be
+    // found out and an action rule might apply
+    const findTarget = async (
+      action: ActionRule["actions"][number],
+      where?: Parameters<typeof targetAt>[1],
+      submitter?: boolean
+    ) => {
+      try {
+        return await targetAt(page, where, submitter);
+      } catch (error) {
+        if (policy.actionRules.length > 0) {
+          decisions.push(refuseUnknownTarget(action, error));
+        }
+        return undefined;
+      }
+    };
+
+    switch (tool) {
+      case "navigate":
+      case "openTab":
+        if (typeof args.url === "string") decisions.push(checkUrl(policy, args.url));
+        break;
+      case "clickByLabel":
+        onElement("click", labeled(args.label));
+        break;
+      case "hoverByLabel":
+        onElement("hover", labeled(args.label));
+        break;
+      case "dragByLabel":
+        onElement("drag", labeled(args.from));
+        onElement("drag", labeled(args.to));
+        break;
+      case "typeByLabel":
+        onElement("type", labeled(args.label));
+        break;
+      case "selectOptionByLabel":
+        onElement("select", labeled(args.label));
+        break;
+      case "setCheckedByLabel":
+        onElement("check", labeled(args.label));
+        break;
+      case "uploadFileByLabel":
+        onElement("upload", labeled(args.label));
+        break;
+      case "fillForm":
+        for (const field of (args.fields as Array<{ label: number }>) ?? []) {
+          const element = labeled(field.label);
+          if (element) onElement(fieldAction(element), element);
+        }
+        break;
+      case "click":
+        onElement(
+          "click",
+          await findTarget(
+            "click",
+            toPagePoint(session.geometry, { x: args.x as number, y: args.y as number })
+          )
+        );
+        break;
+      case "type":
+        onElement("type", await findTarget("type", args.selector as string));
+        break;
+      case "keyboard":
+        onElement("type", await findTarget("type"));
+        break;
+      case "press": {
+        const focused = await findTarget("type");
+        const key = String(args.key ?? "").split("+").at(-1);
+        // Enter and Space activate a focused button or link; Enter in a field
+        // submits its form
+        if (
+          (key === "Enter" || key === " " || key === "Space") &&
+          (focused?.role === "button" || focused?.role === "link")
+        ) {
+          onElement("click", focused);
+        } else {
+          onElement("type", focused);
+          if (key === "Enter") {
+            onElement("click", await findTarget("click", undefined, true));
+          }
+        }
+        break;
+      }
+      case "goBack":
+      case "goForward": {
+        const { urls, index } = session.historyOf(page);
+        const target = urls[tool === "goBack" ? index - 1 : index + 1];
+        if (target) decisions.push(checkUrl(policy, target));
+        break;
+      }
+      case "switchTab": {
+        const tab = session.getTab(args.tabId as number);
+        if (tab) decisions.push(checkUrl(policy, tab.url()));
+        break;
+      }
+      case "respondToDialog": {
+        // Accepting is clicking the dialog's OK, judged by what it asks
+        const dialog = session.openDialog;
+        if (dialog && args.action === "accept") {
+          onElement("click", {
+            role: "button",
+            type: "dialog",
+            name: dialog.message,
+            text: dialog.message,
+          });
+        }
+        break;
+      }
+    }
+    return decisions.map((decision) => ({ ...decision, tool }));
+  };
+
+  const definitions: ToolDefinition[] = [
     {
       type: "function",
       function: {
         name: "navigate",
-        description: "Navigate to a URL in the browser. Returns a screenshot of the page.",
+        description: "Navigate to a URL in the browser. Returns a labeled screenshot of the page.",
         parameters: {
           type: "object",
           properties: {
@@ -47,13 +652,23 @@ export function createBrowserTools(page: Page, client: LMStudioClient): BrowserT
       type: "function",
       function: {
         name: "getContents",
-        description: "Get the text contents of the current page or a specific element.",
+        description:
+          "Read the current page. Reader mode returns the main content as Markdown (headings, lists, tables, link URLs) without menus, footers and banners; long pages come in numbered parts with an outline.",
         parameters: {
           type: "object",
           properties: {
             selector: {
               type: "string",
-              description: "Optional CSS selector. If not provided, returns entire page text.",
+              description: "Optional CSS selector. If not provided, the main content of the page is found automatically.",
+            },
+            page: {
+              type: "number",
+              description: "Which part of a long page to return, starting at 1 (default 1)",
+            },
+            mode: {
+              type: "string",
+              enum: ["reader", "text"],
+              description: '"reader" (default) for the main content as Markdown, "text" for all visible text',
             },
           },
         },
@@ -63,7 +678,7 @@ export function createBrowserTools(page: Page, client: LMStudioClient): BrowserT
       type: "function",
       function: {
         name: "reload",
-        description: "Reload the current page. Returns a screenshot.",
+        description: "Reload the current page. Returns a labeled screenshot.",
         parameters: {
           type: "object",
           properties: {
@@ -109,16 +724,196 @@ export function createBrowserTools(page: Page, client: LMStudioClient): BrowserT
         },
       },
     },
+    {
+      type: "function",
+      function: {
+        name: "labeledScreenshot",
+        description:
+          "Take a fresh screenshot with numbered labels on clickable elements. Use after scrolling to refresh the labels.",
+        parameters: {
+          type: "object",
+          properties: {},
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "listElements",
+        description:
+          "List the interactive elements of the whole page with their labels, including off-screen ones and those beyond the labels drawn on the screenshot. Page through long lists with offset and narrow them with type or text.",
+        parameters: {
+          type: "object",
+          properties: {
+            offset: { type: "number", description: "Number of matching elements to skip (default 0)" },
+            limit: { type: "number", description: "Maximum number of elements to return (default 30)" },
+            type: {
+              type: "string",
+              enum: ["link", "button", "input", "other"],
+              description: "Only list elements of this kind",
+            },
+            text: {
+              type: "string",
+              description: "Only list elements whose name, text, value or link target contains this text",
+            },
+          },
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "clickByLabel",
+        description:
+          "Click the element with the given label number from the latest labeled screenshot or listElements. Off-screen elements are scrolled into view first. Preferred way to click.",
+        parameters: {
+          type: "object",
+          properties: {
+            label: { type: "number", description: "The label number of the element to click" },
+            button: {
+              type: "string",
+              enum: ["left", "right", "middle"],
+              description: 'Which mouse button to use; "right" opens the context menu.',
+            },
+            clickCount: {
+              type: "number",
+              description: "Number of clicks (e.g., 2 for double-click).",
+            },
+          },
+          required: ["label"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "hoverByLabel",
+        description:
+          "Move the mouse over a labeled element and keep it there, e.g. to open a menu that appears on hover. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            label: { type: "number", description: "The label number of the element to hover over" },
+          },
+          required: ["label"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "dragByLabel",
+        description:
+          "Drag a labeled element and drop it on another labeled element (to) or at screenshot coordinates (x, y), e.g. to reorder a list or move a slider. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            from: { type: "number", description: "The label number of the element to drag" },
+            to: { type: "number", description: "The label number of the element to drop it on" },
+            x: { type: "number", description: "X coordinate in the screenshot to drop it at, instead of to" },
+            y: { type: "number", description: "Y coordinate in the screenshot to drop it at, instead of to" },
+          },
+          required: ["from"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "typeByLabel",
+        description:
+          "Type text into a labeled field (text box, text area, search box, date or number input). Replaces the current text unless clear is false. Returns the value the field now has and a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            label: { type: "number", description: "The label number of the field" },
+            text: {
+              type: "string",
+              description: "The text to type. Dates, times and colors use the input's format, e.g. 2024-05-31",
+            },
+            clear: {
+              type: "boolean",
+              description: "Replace the current text (default true); false appends to it",
+            },
+          },
+          required: ["label", "text"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "selectOptionByLabel",
+        description:
+          "Select an option of a labeled dropdown (<select>) by its visible text or value. Without an option, lists the available options. Returns the selection and a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            label: { type: "number", description: "The label number of the dropdown" },
+            option: {
+              type: "string",
+              description: "Visible text or value of the option; omit to list the options",
+            },
+          },
+          required: ["label"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "setCheckedByLabel",
+        description:
+          "Check or uncheck a labeled checkbox, radio button or switch. Returns its state and a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            label: { type: "number", description: "The label number of the checkbox, radio button or switch" },
+            checked: { type: "boolean", description: "true to check (default), false to uncheck" },
+          },
+          required: ["label"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "fillForm",
+        description:
+          "Set several labeled form fields in one call: text is typed (replacing the current text), dropdown options are selected by text or value, and checkboxes, radios and switches are set with true/false. Returns the value each field ended up with and a labeled screenshot. Does not submit the form.",
+        parameters: {
+          type: "object",
+          properties: {
+            fields: {
+              type: "array",
+              description: "The fields to set, in order",
+              items: {
+                type: "object",
+                properties: {
+                  label: { type: "number", description: "The label number of the field" },
+                  value: {
+                    type: ["string", "boolean"],
+                    description: "Text, option, or true/false for checkboxes, radios and switches",
+                  },
+                },
+                required: ["label", "value"],
+              },
+            },
+          },
+          required: ["fields"],
+        },
+      },
+    },
     {
       type: "function",
       function: {
         name: "click",
-        description: "Click at specific coordinates on the page.",
+        description: "Click at specific coordinates on the page. Only use if clickByLabel doesn't work.",
         parameters: {
           type: "object",
           properties: {
-            x: { type: "number", description: "X coordinate (pixels from left)" },
-            y: { type: "number", description: "Y coordinate (pixels from top)" },
+            x: { type: "number", description: "X coordinate in the screenshot (pixels from left)" },
+            y: { type: "number", description: "Y coordinate in the screenshot (pixels from top)" },
             button: {
               type: "string",
               enum: ["left", "right", "middle"],
@@ -137,7 +932,7 @@ export function createBrowserTools(page: Page, client: LMStudioClient): BrowserT
       type: "function",
       function: {
         name: "scroll",
-        description: "Scroll the page or a specific element.",
+        description: "Scroll the page or a specific element. Returns a labeled screenshot.",
         parameters: {
           type: "object",
           properties: {
@@ -173,35 +968,338 @@ export function createBrowserTools(page: Page, client: LMStudioClient): BrowserT
         },
       },
     },
+    {
+      type: "function",
+      function: {
+        name: "keyboard",
+        description: "Type text at the current cursor position. Click an input field first to focus it.",
+        parameters: {
+          type: "object",
+          properties: {
+            text: { type: "string", description: "The text to type" },
+          },
+          required: ["text"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "press",
+        description:
+          "Press a key or key combination, e.g. Enter, Tab, Escape, Backspace, ArrowDown, Control+L, Shift+Tab, Control+Shift+T. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            key: {
+              type: "string",
+              description: "The key, or modifiers and a key joined with +",
+            },
+            repeat: { type: "number", description: "How many times to press it (default 1)." },
+          },
+          required: ["key"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "listTabs",
+        description: "List the open tabs with their IDs, titles and URLs.",
+        parameters: {
+          type: "object",
+          properties: {},
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "switchTab",
+        description: "Switch to another open tab by its ID. Returns a labeled screenshot of that tab.",
+        parameters: {
+          type: "object",
+          properties: {
+            tabId: { type: "number", description: "The ID of the tab to switch to (from listTabs)" },
+          },
+          required: ["tabId"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "openTab",
+        description: "Open a new tab, optionally at a URL, and make it the active tab. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            url: { type: "string", description: "Optional URL to open in the new tab" },
+          },
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "closeTab",
+        description: "Close a tab by its ID (default: the active tab). Returns a labeled screenshot of the tab that is active afterwards.",
+        parameters: {
+          type: "object",
+          properties: {
+            tabId: { type: "number", description: "The ID of the tab to close" },
+          },
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "goBack",
+        description:
+          "Go back to the previous page in the active tab's history, keeping its scroll position and state. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {},
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "goForward",
+        description: "Go forward to the next page in the active tab's history. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {},
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "getHistory",
+        description: "List the pages a tab has visited, oldest first, with titles and timestamps.",
+        parameters: {
+          type: "object",
+          properties: {
+            tabId: { type: "number", description: "The ID of the tab (default: the active tab)" },
+          },
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "uploadFileByLabel",
+        description:
+          "Upload files from the workspace through a labeled file input or upload button. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            label: {
+              type: "number",
+              description: "The label number of the file input or upload button",
+            },
+            files: {
+              type: "array",
+              items: { type: "string" },
+              description: 'Paths of the files relative to the workspace, e.g. "cv.pdf"',
+            },
+          },
+          required: ["label", "files"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "readDownloadedFile",
+        description:
+          "Read a downloaded file from the workspace. Text is returned as is, CSV with its columns and row count, JSON pretty-printed. Long files are returned in parts.",
+        parameters: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: 'Path of the file as reported when it was downloaded, e.g. "downloads/report.csv"',
+            },
+            offset: {
+              type: "number",
+              description: "Character offset to continue reading a long file from.",
+            },
+          },
+          required: ["path"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "extract",
+        description:
+          "Extract structured records from the page's tables, lists and repeated cards (e.g. products, search results). Give a JSON Schema of one record; fields are matched to its properties by name, numbers and yes/no are converted, and records that fail validation are reported with the reason.",
+        parameters: {
+          type: "object",
+          properties: {
+            schema: {
+              type: "object",
+              description:
+                'JSON Schema of one record, e.g. {"type": "object", "properties": {"name": {"type": "string"}, "price": {"type": "number"}}, "required": ["name"]}',
+            },
+            selector: {
+              type: "string",
+              description: "Optional CSS selector of the part of the page to extract from",
+            },
+            limit: {
+              type: "number",
+              description: "Most records to return (default 50)",
+            },
+          },
+          required: ["schema"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "exportTable",
+        description:
+          "Export an HTML table on the page as CSV or JSON, saved in the workspace's exports folder. Returns the file path and the contents.",
+        parameters: {
+          type: "object",
+          properties: {
+            table: {
+              type: "number",
+              description: "Which table to export, numbered from 1 in page order (default 1)",
+            },
+            selector: {
+              type: "string",
+              description: "Optional CSS selector of the table, or of an element containing it",
+            },
+            format: {
+              type: "string",
+              enum: ["csv", "json"],
+              description: "File format (default csv)",
+            },
+            filename: {
+              type: "string",
+              description: "Name to save the file under; made from the page title if not given",
+            },
+          },
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "respondToDialog",
+        description:
+          "Answer the alert, confirm, prompt or leave-page dialog the page is showing. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            action: {
+              type: "string",
+              enum: ["accept", "dismiss"],
+              description: '"accept" is OK (or leave the page), "dismiss" is Cancel (or stay)',
+            },
+            promptText: {
+              type: "string",
+              description: "Text to enter into a prompt dialog before accepting it.",
+            },
+          },
+          required: ["action"],
+        },
+      },
+    },
+    {
+      type: "function",
+      function: {
+        name: "waitFor",
+        description:
+          "Wait until text appears (or disappears), a labeled element is there and enabled (or gone), or the URL matches a pattern. Give exactly one of text, label or url. Returns a labeled screenshot.",
+        parameters: {
+          type: "object",
+          properties: {
+            text: { type: "string", description: "Text to wait for" },
+            label: { type: "number", description: "Label number of the element to wait for" },
+            url: {
+              type: "string",
+              description: "Text the URL should contain, or a /regex/ it should match",
+            },
+            gone: {
+              type: "boolean",
+              description: "Wait for the text or element to disappear instead.",
+            },
+            timeout: { type: "number", description: "Longest time to wait in ms (default 10000)." },
+          },
+        },
+      },
+    },
   ];
 
+  const schemas: ToolSchemas = {
+    navigate: navigateSchema,
+    getContents: getContentsSchema,
+    reload: reloadSchema,
+    queryElementViaCssSelector: queryElementViaCssSelectorSchema,
+    screenshot: screenshotSchema,
+    labeledScreenshot: labeledScreenshotSchema,
+    listElements: listElementsSchema,
+    clickByLabel: clickByLabelSchema,
+    hoverByLabel: hoverByLabelSchema,
+    dragByLabel: dragByLabelSchema,
+    typeByLabel: typeByLabelSchema,
+    selectOptionByLabel: selectOptionByLabelSchema,
+    setCheckedByLabel: setCheckedByLabelSchema,
+    fillForm: fillFormSchema,
+    click: clickSchema,
+    scroll: scrollSchema,
+    type: typeSchema,
+    keyboard: keyboardSchema,
+    press: pressSchema,
+    listTabs: listTabsSchema,
+    switchTab: switchTabSchema,
+    openTab: openTabSchema,
+    closeTab: closeTabSchema,
+    goBack: goBackSchema,
+    goForward: goForwardSchema,
+    getHistory: getHistorySchema,
+    uploadFileByLabel: uploadFileByLabelSchema,
+    readDownloadedFile: readDownloadedFileSchema,
+    extract: extractSchema,
+    exportTable: exportTableSchema,
+    respondToDialog: respondToDialogSchema,
+    waitFor: waitForSchema,
+  };
+
   const implementations: Record<string, ToolImplementation> = {
     navigate: async (args) => {
-      const result = await navigate(page, { url: args.url as string });
-      const image = await client.files.prepareImageBase64(
-        result.screenshot.filename,
-        result.screenshot.base64
-      );
-      return { message: result.message, image };
+      const result = await navigate(session, { url: args.url as string });
+      return withLabeledScreenshot(result.message);
     },
 
     getContents: async (args) => {
-      return getContents(page, { selector: args.selector as string | undefined });
+      const selector = args.selector as string | undefined;
+      const result = await getContents(session, {
+        selector,
+        page: (args.page as number) ?? 1,
+        mode: (args.mode as "reader" | "text") ?? "reader",
+      });
+      if (!result) return `No element found matching selector: ${selector}`;
+      return formatReadableContent(result);
     },
 
     reload: async (args) => {
-      const result = await reload(page, {
+      const result = await reload(session, {
         waitUntil: args.waitUntil as "load" | "domcontentloaded" | "networkidle" | "commit" | undefined,
       });
-      const image = await client.files.prepareImageBase64(
-        result.screenshot.filename,
-        result.screenshot.base64
-      );
-      return { message: result.message, image };
+      return withLabeledScreenshot(result.message);
     },
 
     queryElementViaCssSelector: async (args) => {
-      const result = await queryElementViaCssSelector(page, {
+      const result = await queryElementViaCssSelector(session, {
         selector: args.selector as string,
         attribute: args.attribute as string | undefined,
         all: (args.all as boolean) ?? false,
@@ -210,42 +1308,304 @@ export function createBrowserTools(page: Page, client: LMStudioClient): BrowserT
     },
 
     screenshot: async () => {
-      const result = await screenshot(page);
-      const image = await client.files.prepareImageBase64(
-        result.filename,
-        result.base64
+      const result = await screenshot(session);
+      return { message: "Screenshot taken", image: result };
+    },
+
+    labeledScreenshot: async () => {
+      return withLabeledScreenshot("Labeled screenshot taken.");
+    },
+
+    listElements: async (args) => {
+      const type = args.type as "link" | "button" | "input" | "other" | undefined;
+      const text = args.text as string | undefined;
+      const result = await listElements(session, {
+        offset: (args.offset as number) ?? 0,
+        limit: (args.limit as number) ?? 30,
+        type,
+        text,
+      });
+      const filter = [type && `type ${type}`, text && `text "${text}"`]
+        .filter(Boolean)
+        .join(", ");
+      const matching = filter ? ` matching ${filter}` : "";
+      if (result.elements.length === 0) {
+        return `No elements${matching} at offset ${result.offset} (${result.total} in total).`;
+      }
+      const first = result.offset + 1;
+      const last = result.offset + result.elements.length;
+      const more =
+        last < result.total ? ` Use offset ${last} to see the next ones.` : "";
+      return `Elements ${first}-${last} of ${result.total}${matching}.${more}\n\n${formatElementList(
+        result.elements
+      )}`;
+    },
+
+    clickByLabel: async (args) => {
+      return withScreenshot(
+        await clickByLabel(session, {
+          label: args.label as number,
+          button: (args.button as "left" | "right" | "middle") ?? "left",
+          clickCount: (args.clickCount as number) ?? 1,
+        })
+      );
+    },
+
+    hoverByLabel: async (args) => {
+      return withScreenshot(await hoverByLabel(session, { label: args.label as number }));
+    },
+
+    dragByLabel: async (args) => {
+      return withScreenshot(
+        await dragByLabel(session, {
+          from: args.from as number,
+          to: args.to as number | undefined,
+          x: args.x as number | undefined,
+          y: args.y as number | undefined,
+        })
+      );
+    },
+
+    typeByLabel: async (args) => {
+      return withFieldValues(
+        await typeByLabel(session, {
+          label: args.label as number,
+          text: args.text as string,
+          clear: (args.clear as boolean | undefined) ?? true,
+        })
+      );
+    },
+
+    selectOptionByLabel: async (args) => {
+      return withFieldValues(
+        await selectOptionByLabel(session, {
+          label: args.label as number,
+          option: args.option as string | undefined,
+        })
+      );
+    },
+
+    setCheckedByLabel: async (args) => {
+      return withFieldValues(
+        await setCheckedByLabel(session, {
+          label: args.label as number,
+          checked: (args.checked as boolean | undefined) ?? true,
+        })
+      );
+    },
+
+    fillForm: async (args) => {
+      return withFieldValues(
+        await fillForm(session, {
+          fields: args.fields as { label: number; value: string | boolean }[],
+        })
       );
-      return { message: "Screenshot taken", image };
     },
 
     click: async (args) => {
-      return click(page, {
+      const result = await click(session, {
         x: args.x as number,
         y: args.y as number,
         button: (args.button as "left" | "right" | "middle") ?? "left",
         clickCount: (args.clickCount as number) ?? 1,
       });
+      return withScreenshot(result);
     },
 
     scroll: async (args) => {
-      return scroll(page, {
+      const result = await scroll(session, {
         direction: args.direction as "up" | "down" | "left" | "right",
         amount: (args.amount as number) ?? 500,
         selector: args.selector as string | undefined,
       });
+      return withLabeledScreenshot(result);
     },
 
     type: async (args) => {
-      return typeText(page, {
+      return typeText(session, {
         selector: args.selector as string,
         text: args.text as string,
         delay: (args.delay as number) ?? 0,
         clear: (args.clear as boolean) ?? false,
       });
     },
+
+    keyboard: async (args) => {
+      const result = await keyboard(session, { text: args.text as string });
+      return withLabeledScreenshot(result);
+    },
+
+    press: async (args) => {
+      const result = await press(session, {
+        key: args.key as string,
+        repeat: (args.repeat as number) ?? 1,
+      });
+      return withLabeledScreenshot(result);
+    },
+
+    listTabs: async () => {
+      return formatTabList(await listTabs(session));
+    },
+
+    switchTab: async (args) => {
+      const result = await switchTab(session, { tabId: args.tabId as number });
+      return withLabeledScreenshot(result);
+    },
+
+    openTab: async (args) => {
+      const result = await openTab(session, { url: args.url as string | undefined });
+      return withLabeledScreenshot(result);
+    },
+
+    closeTab: async (args) => {
+      const result = await closeTab(session, { tabId: args.tabId as number | undefined });
+      return withLabeledScreenshot(result);
+    },
+
+    goBack: async () => {
+      const result = await goBack(session);
+      return withLabeledScreenshot(result.message);
+    },
+
+    goForward: async () => {
+      const result = await goForward(session);
+      return withLabeledScreenshot(result.message);
+    },
+
+    getHistory: async (args) => {
+      const tabId = args.tabId as number | undefined;
+      const result = await getHistory(session, { tabId });
+      if (!result) {
+        return `No tab with ID ${tabId}. ${formatTabList(await listTabs(session))}`;
+      }
+      return formatNavigationTimeline(result.tabId, result.entries);
+    },
+
+    uploadFileByLabel: async (args) => {
+      return withScreenshot(
+        await uploadFileByLabel(session, {
+          label: args.label as number,
+          files: args.files as string[],
+        })
+      );
+    },
+
+    respondToDialog: async (args) => {
+      const result = await respondToDialog(session, {
+        action: args.action as "accept" | "dismiss",
+        promptText: args.promptText as string | undefined,
+      });
+      return withLabeledScreenshot(result);
+    },
+
+    waitFor: async (args) => {
+      const result = await waitFor(session, {
+        text: args.text as string | undefined,
+        label: args.label as number | undefined,
+        url: args.url as string | undefined,
+        gone: (args.gone as boolean) ?? false,
+        timeout: (args.timeout as number) ?? 10_000,
+      });
+      return withLabeledScreenshot(result);
+    },
+
+    readDownloadedFile: async (args) => {
+      const file = await readDownloadedFile(session, {
+        path: args.path as string,
+        offset: (args.offset as number) ?? 0,
+      });
+      return formatFileContents(file);
+    },
+
+    extract: async (args) => {
+      const result = await extract(session, {
+        schema: args.schema as JsonSchema,
+        selector: args.selector as string | undefined,
+        limit: (args.limit as number) ?? 50,
+      });
+      return formatExtractResult(result);
+    },
+
+    exportTable: async (args) => {
+      const result = await exportTable(session, {
+        table: (args.table as number) ?? 1,
+        selector: args.selector as string | undefined,
+        format: (args.format as "csv" | "json") ?? "csv",
+        filename: args.filename as string | undefined,
+      });
+      return formatTableExport(result);
+    },
   };
 
-  return { definitions, implementations };
+  // Append new-tab, download, file chooser and dialog notices to every tool's
+  // result and record where the tool left the browser. A dialog that waits for
+  // an answer blocks the page, so the tool that opened it returns right away.
+  for (const [name, implementation] of Object.entries(implementations)) {
+    implementations[name] = async (args) => {
+      const blocking = session.openDialog;
+      if (blocking && name !== "respondToDialog") {
+        return {
+          message: `Nothing was done. ${formatDialog(blocking)}`,
+          url: session.page.url(),
+        };
+      }
+      const checked = await checkPolicy(name, args);
+      const refused = checked.find((decision) => !decision.allowed);
+      if (refused) {
+        return {
+          message: formatPolicyRefusal(refused),
+          url: session.page.url(),
+          policy: checked,
+        };
+      }
+      const action = implementation(args);
+      const finished = action.then((output) => ({ output }));
+      const outcome = await Promise.race([
+        finished,
+        session.waitForDialog().then((dialog) => ({ dialog })),
+      ]);
+      if ("dialog" in outcome) {
+        finished.catch(() => {});
+        session.setInterruptedAction(action);
+        return {
+          message: formatDialog(outcome.dialog),
+          url: session.page.url(),
+          policy: checked,
+        };
+      }
+      const { output } = outcome;
+      // The tool's screenshot shows a page the policy refuses if the tab had to leave it
+      const left = await session.leaveRefusedPage();
+      let result = typeof output === "string" ? { message: output } : output;
+      if (left && result.image) result = await retakeScreenshot(result);
+      const downloads = await session.takeDownloads();
+      const decisions = [
+        ...checked,
+        ...session.takePolicyDecisions().map((decision) => ({ ...decision, tool: name })),
+      ];
+      const notices = [
+        ...decisions.filter((decision) => !decision.allowed).map(formatPolicyRefusal),
+        await describeNewTabs(),
+        ...session.takeDialogs().map(formatDialog),
+        downloads.length > 0 ? formatDownloads(downloads) : undefined,
+        session.takeFileChooser()
+          ? "The page opened a file chooser. Use uploadFileByLabel with the label of the upload button or file input to pick files from the workspace."
+          : undefined,
+      ].filter(Boolean);
+      const { elementList, ...rest } = result;
+      return {
+        ...rest,
+        message: [result.message, ...(elementList ? [elementList] : []), ...notices].join(
+          "\n\n"
+        ),
+        url: session.page.url(),
+        title: await session.page.title().catch(() => ""),
+        policy: decisions,
+      };
+    };
+  }
+
+  return { definitions, schemas, implementations, geometry: session.geometry };
 }
 
 export type BrowserTools = ReturnType<typeof createBrowserTools>;
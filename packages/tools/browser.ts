@@ -1,66 +1,127 @@
-import type { Page } from "playwright";
+import { errors, type ElementHandle, type Page } from "playwright";
 import sharp from "sharp";
-import { z } from "zod";
+import { z, type ZodTypeAny } from "zod";
+import {
+  detectClickableElements,
+  getElementCategory,
+  resolveElement,
+  scrollElementIntoView,
+  type LabeledElement,
+} from "./elements.ts";
+import {
+  toImageBox,
+  toImagePoint,
+  toPagePoint,
+  type Geometry,
+  type Point,
+} from "./geometry.ts";
+import { renderLabelOverlay } from "./label-layout.ts";
+import {
+  chunkHeadings,
+  chunkMarkdown,
+  extractReadable,
+  type ReadableDocument,
+} from "./reader.ts";
+import {
+  describeTable,
+  extractRecords,
+  findRecordSets,
+  MAX_RECORDS,
+  readTables,
+  recordSchemaOf,
+  tableRecords,
+  type ExtractResult,
+  type JsonSchema,
+  type TableData,
+} from "./extract.ts";
+import { describeSettle, settle, type SettleResult } from "./settle.ts";
+import {
+  DOWNLOADS_DIR,
+  EXPORTS_DIR,
+  formatCsv,
+  listWorkspaceFiles,
+  readWorkspaceFile,
+  resolveWorkspaceFile,
+  saveWorkspaceFile,
+  type WorkspaceFileContents,
+} from "./workspace.ts";
+import type {
+  BrowserSession,
+  NavigationEntry,
+  TabInfo,
+} from "./session.ts";
 
 export interface ScreenshotData {
   base64: string;
   filename: string;
 }
 
+// Where a click landed, in image coordinates
 interface ClickIndicator {
   x: number;
   y: number;
 }
 
-export interface LabeledElement {
-  label: number;
-  type: string;
-  text: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}
-
 export interface LabeledScreenshotData extends ScreenshotData {
+  // Elements labeled on the screenshot
   elements: LabeledElement[];
+  // Elements detected on the whole page, including off-screen ones; listElements pages through them
+  totalElements: number;
 }
 
-async function takeScreenshot(
-  page: Page,
-  clickIndicator?: ClickIndicator
-): Promise<ScreenshotData> {
-  const rawBuffer = await page.screenshot({ type: "jpeg" });
+// Maximum number of labels drawn on a screenshot, to avoid overwhelming the model
+const MAX_DRAWN_LABELS = 30;
 
-  // Resize to exactly 896x896 with black padding to avoid MLX adding its own padding
-  // This ensures consistent image sizes across all screenshots
-  let pipeline = sharp(rawBuffer).resize(896, 896, {
-    fit: "contain", // Fit inside and add padding
+// Resize a page screenshot to the model's image size. The size is exact (with
+// black padding, or stretched) so MLX doesn't add its own padding and every
+// screenshot has the same dimensions.
+function resizeToImage(rawBuffer: Buffer, geometry: Geometry): sharp.Sharp {
+  const { width, height } = geometry.image;
+  return sharp(rawBuffer).resize(width, height, {
+    fit: geometry.padding ? "contain" : "fill",
     background: { r: 0, g: 0, b: 0 }, // Black padding
   });
+}
 
-  // If click indicator is provided, draw a red dot at the click location
-  if (clickIndicator) {
-    const { x, y } = clickIndicator;
-    const dotSize = 20; // Diameter of the dot
-    const halfDot = dotSize / 2;
-
-    // Create a red circle SVG overlay
-    const circleSvg = Buffer.from(`
-      <svg width="896" height="896">
+// A red dot marking where a click landed, drawn over the whole image
+function clickIndicatorOverlay(
+  session: BrowserSession,
+  { x, y }: ClickIndicator
+): Buffer {
+  const { width, height } = session.geometry.image;
+  const dotSize = 20; // Diameter of the dot
+  const halfDot = dotSize / 2;
+  return Buffer.from(`
+      <svg width="${width}" height="${height}">
         <circle cx="${x}" cy="${y}" r="${halfDot}" fill="red" stroke="white" stroke-width="3"/>
         <circle cx="${x}" cy="${y}" r="3" fill="white"/>
       </svg>
     `);
+}
+
+async function takeScreenshot(
+  session: BrowserSession,
+  clickIndicator?: ClickIndicator
+): Promise<ScreenshotData> {
+  const { quality, debug } = session.screenshotSettings;
+  const rawBuffer = await session.page.screenshot({ type: "jpeg" });
+
+  let pipeline = resizeToImage(rawBuffer, session.geometry);
 
-    pipeline = pipeline.composite([{ input: circleSvg, top: 0, left: 0 }]);
+  // If click indicator is provided, draw a red dot at the click location
+  if (clickIndicator) {
+    pipeline = pipeline.composite([
+      { input: clickIndicatorOverlay(session, clickIndicator), top: 0, left: 0 },
+    ]);
   }
 
-  const compressedBuffer = await pipeline.jpeg({ quality: 80 }).toBuffer();
+  const compressedBuffer = await pipeline.jpeg({ quality }).toBuffer();
 
   // Debug: save screenshot to disk
-  await Bun.write("/tmp/debug-screenshot.jpg", compressedBuffer);
-  console.log("[DEBUG] Screenshot saved to /tmp/debug-screenshot.jpg");
+  if (debug) {
+    await Bun.write("/tmp/debug-screenshot.jpg", compressedBuffer);
+    console.log("[DEBUG] Screenshot saved to /tmp/debug-screenshot.jpg");
+  }
 
   const base64 = compressedBuffer.toString("base64");
   return {
@@ -69,114 +130,6 @@ async function takeScreenshot(
   };
 }
 
-/**
- * Detect clickable elements on the page and return their bounding boxes
- */
-async function detectClickableElements(page: Page): Promise<LabeledElement[]> {
-  const elements = await page.evaluate(() => {
-    const clickableSelectors = [
-      "a[href]",
-      "button",
-      'input[type="button"]',
-      'input[type="submit"]',
-      'input[type="text"]',
-      'input[type="search"]',
-      'input[type="email"]',
-      'input[type="password"]',
-      "textarea",
-      "select",
-      '[role="button"]',
-      '[role="link"]',
-      '[role="menuitem"]',
-      '[role="tab"]',
-      "[onclick]",
-      "[tabindex]",
-    ];
-
-    const allElements = document.querySelectorAll(clickableSelectors.join(","));
-    const results: Array<{
-      type: string;
-      text: string;
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-    }> = [];
-
-    allElements.forEach((el) => {
-      const rect = el.getBoundingClientRect();
-
-      // Skip elements that are not visible or too small
-      if (
-        rect.width < 10 ||
-        rect.height < 10 ||
-        rect.top < 0 ||
-        rect.left < 0 ||
-        rect.bottom > window.innerHeight ||
-        rect.right > window.innerWidth
-      ) {
-        return;
-      }
-
-      // Skip elements with no visible area
-      const style = window.getComputedStyle(el);
-      if (
-        style.display === "none" ||
-        style.visibility === "hidden" ||
-        style.opacity === "0"
-      ) {
-        return;
-      }
-
-      // Get element type
-      const tagName = el.tagName.toLowerCase();
-      let type = tagName;
-      if (tagName === "input") {
-        type = `input[${(el as HTMLInputElement).type}]`;
-      } else if (tagName === "a") {
-        type = "link";
-      }
-
-      // Get text content (truncate if too long)
-      let text =
-        (el as HTMLElement).innerText ||
-        (el as HTMLInputElement).value ||
-        (el as HTMLElement).getAttribute("aria-label") ||
-        (el as HTMLElement).getAttribute("title") ||
-        (el as HTMLElement).getAttribute("placeholder") ||
-        "";
-      text = text.trim().substring(0, 50);
-      if (text.length === 50) text += "...";
-
-      results.push({
-        type,
-        text,
-        x: Math.round(rect.left),
-        y: Math.round(rect.top),
-        width: Math.round(rect.width),
-        height: Math.round(rect.height),
-      });
-    });
-
-    // Sort by position (top to bottom, left to right)
-    results.sort((a, b) => {
-      if (Math.abs(a.y - b.y) < 20) {
-        return a.x - b.x;
-      }
-      return a.y - b.y;
-    });
-
-    // Limit to first 30 elements to avoid overwhelming the model
-    return results.slice(0, 30);
-  });
-
-  // Add labels (1-indexed for human readability)
-  return elements.map((el, index) => ({
-    ...el,
-    label: index + 1,
-  }));
-}
-
 /**
  * Get color for element type
  * - Blue (#3B82F6): Links - clickable navigation elements
@@ -184,17 +137,17 @@ async function detectClickableElements(page: Page): Promise<LabeledElement[]> {
  * - Orange (#F97316): Buttons - action elements
  * - Purple (#A855F7): Other interactive elements (divs with onclick, etc.)
  */
-function getElementColor(type: string): string {
-  if (type === "link") {
-    return "#3B82F6"; // Blue for links
-  }
-  if (type.startsWith("input[") || type === "textarea" || type === "select") {
-    return "#22C55E"; // Green for inputs
+function getElementColor(element: LabeledElement): string {
+  switch (getElementCategory(element)) {
+    case "link":
+      return "#3B82F6"; // Blue for links
+    case "input":
+      return "#22C55E"; // Green for inputs, checkboxes, selects
+    case "button":
+      return "#F97316"; // Orange for buttons
+    default:
+      return "#A855F7"; // Purple for other interactive elements
   }
-  if (type === "button") {
-    return "#F97316"; // Orange for buttons
-  }
-  return "#A855F7"; // Purple for other interactive elements
 }
 
 /**
@@ -204,68 +157,74 @@ function getElementColor(type: string): string {
  * - Green: Inputs (text entry)
  * - Orange: Buttons (actions)
  * - Purple: Other interactive elements
+ * Only the first MAX_DRAWN_LABELS elements in the viewport are drawn, but every
+ * detected element (including off-screen ones) becomes part of the session's
+ * label map for clickByLabel and listElements.
  */
 async function takeLabeledScreenshot(
-  page: Page
+  session: BrowserSession,
+  clickIndicator?: ClickIndicator
 ): Promise<LabeledScreenshotData> {
-  const elements = await detectClickableElements(page);
-  const rawBuffer = await page.screenshot({ type: "jpeg" });
-
-  // Resize to exactly 896x896 with black padding
-  let pipeline = sharp(rawBuffer).resize(896, 896, {
-    fit: "contain",
-    background: { r: 0, g: 0, b: 0 },
-  });
-
-  // Create SVG overlay with numbered labels (color-coded by type)
+  const { quality, debug } = session.screenshotSettings;
+  const { width, height } = session.geometry.image;
+  const detected = await detectClickableElements(session.page);
+  // In-viewport elements come first, so these are the lowest labels
+  const elements = detected
+    .filter((el) => el.visibility !== "offscreen")
+    .slice(0, MAX_DRAWN_LABELS);
+  const rawBuffer = await session.page.screenshot({ type: "jpeg" });
+
+  let pipeline = resizeToImage(rawBuffer, session.geometry);
+  // sharp keeps only the last composite() call, so the overlays go in one list
+  const layers: { input: Buffer; top: number; left: number }[] = [];
+
+  // Create SVG overlay with outlined elements and numbered badges (color-coded by type)
   if (elements.length > 0) {
-    const svgParts: string[] = [];
-
-    for (const el of elements) {
-      const color = getElementColor(el.type);
-
-      // Draw a semi-transparent box around the element
-      svgParts.push(
-        `<rect x="${el.x}" y="${el.y}" width="${el.width}" height="${el.height}" fill="none" stroke="${color}" stroke-width="2" rx="3"/>`
-      );
-
-      // Draw a label circle with number at top-left of element
-      const labelX = Math.max(12, el.x);
-      const labelY = Math.max(12, el.y);
-      svgParts.push(
-        `<circle cx="${labelX}" cy="${labelY}" r="12" fill="${color}"/>`
-      );
-      svgParts.push(
-        `<text x="${labelX}" y="${
-          labelY + 4
-        }" text-anchor="middle" font-family="Arial, sans-serif" font-size="12" font-weight="bold" fill="white">${
-          el.label
-        }</text>`
+    const overlay = renderLabelOverlay(
+      elements.map((el) => ({
+        label: el.label,
+        color: getElementColor(el),
+        // Element boxes are in page space; the overlay is drawn on the image
+        box: toImageBox(session.geometry, el),
+        name: el.name || el.text,
+      })),
+      { width, height },
+      { highContrast: session.screenshotSettings.highContrast }
+    );
+    layers.push({ input: Buffer.from(overlay.svg), top: 0, left: 0 });
+    if (debug && (overlay.leaderLabels.length || overlay.legendLabels.length)) {
+      console.log(
+        `[DEBUG] Crowded labels: ${overlay.leaderLabels.length} with leader lines, ${overlay.legendLabels.length} in the legend`
       );
     }
-
-    const labelsSvg = Buffer.from(
-      `<svg width="896" height="896" xmlns="http://www.w3.org/2000/svg">${svgParts.join(
-        ""
-      )}</svg>`
-    );
-
-    pipeline = pipeline.composite([{ input: labelsSvg, top: 0, left: 0 }]);
   }
+  // Draw a red dot where a click landed, over the labels
+  if (clickIndicator) {
+    layers.push({
+      input: clickIndicatorOverlay(session, clickIndicator),
+      top: 0,
+      left: 0,
+    });
+  }
+  if (layers.length > 0) pipeline = pipeline.composite(layers);
 
-  const compressedBuffer = await pipeline.jpeg({ quality: 80 }).toBuffer();
+  const compressedBuffer = await pipeline.jpeg({ quality }).toBuffer();
+  session.setDetectedElements(detected);
 
   // Debug: save screenshot to disk
-  await Bun.write("/tmp/debug-screenshot-labeled.jpg", compressedBuffer);
-  console.log(
-    "[DEBUG] Labeled screenshot saved to /tmp/debug-screenshot-labeled.jpg"
-  );
+  if (debug) {
+    await Bun.write("/tmp/debug-screenshot-labeled.jpg", compressedBuffer);
+    console.log(
+      "[DEBUG] Labeled screenshot saved to /tmp/debug-screenshot-labeled.jpg"
+    );
+  }
 
   const base64 = compressedBuffer.toString("base64");
   return {
     base64,
     filename: `screenshot-labeled-${Date.now()}.jpg`,
     elements,
+    totalElements: detected.length,
   };
 }
 
@@ -280,21 +239,33 @@ export interface NavigateResult {
   screenshot: ScreenshotData;
 }
 
+// How long navigate waits for the server to answer before giving up
+const NAVIGATION_TIMEOUT = 30_000;
+
 export async function navigate(
-  page: Page,
+  session: BrowserSession,
   input: NavigateInput
 ): Promise<NavigateResult> {
   const { url } = navigateSchema.parse(input);
+  const { page } = session;
 
   let message = `Navigated to ${url}`;
 
   try {
-    // Use a short timeout (3 seconds) - if page doesn't load quickly, we still want to see what's there
-    await page.goto(url, { waitUntil: "networkidle", timeout: 3000 });
+    // Only wait for the server to answer; the settle routine takes it from there
+    await page.goto(url, { waitUntil: "commit", timeout: NAVIGATION_TIMEOUT });
   } catch (error) {
     // If timeout or navigation error, still take a screenshot of whatever loaded
     if (error instanceof Error && error.message.includes("Timeout")) {
-      message = `Navigation to ${url} timed out after 3s, but page may have partially loaded`;
+      message = `Navigation to ${url} got no response within ${
+        NAVIGATION_TIMEOUT / 1000
+      }s`;
+    } else if (
+      error instanceof Error &&
+      error.message.includes("Download is starting")
+    ) {
+      // The URL is a file; it is reported with the other downloads
+      message = `Navigating to ${url} started a download`;
     } else {
       message = `Navigation to ${url} had an issue: ${
         error instanceof Error ? error.message : "Unknown error"
@@ -302,10 +273,11 @@ export async function navigate(
     }
   }
 
+  const settled = await settle(page, session.settleSettings);
   // Always take a screenshot, even if navigation had issues
   return {
-    message,
-    screenshot: await takeScreenshot(page),
+    message: `${message}. ${describeSettle(settled)}`,
+    screenshot: await takeScreenshot(session),
   };
 }
 
@@ -314,35 +286,80 @@ export const getContentsSchema = z.object({
     .string()
     .optional()
     .describe(
-      "Optional CSS selector to get contents from. If not provided, returns the entire page content."
+      "Optional CSS selector to get contents from. If not provided, returns the main content of the page."
+    ),
+  page: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .default(1)
+    .describe("Which chunk of a long document to return, starting at 1"),
+  mode: z
+    .enum(["reader", "text"])
+    .optional()
+    .default("reader")
+    .describe(
+      '"reader" returns the main content as Markdown, "text" all visible text of the page'
     ),
 });
 
 export type GetContentsInput = z.infer<typeof getContentsSchema>;
 
-export async function getContents(
-  page: Page,
-  input: GetContentsInput = {}
-): Promise<string> {
-  const { selector } = getContentsSchema.parse(input);
+export interface GetContentsResult {
+  title: string;
+  url: string;
+  mode: "reader" | "text";
+  // What the content was taken from, e.g. "article" or "body"
+  source: string;
+  // The requested chunk
+  content: string;
+  page: number;
+  pages: number;
+  // Headings in each chunk, for finding the section to read next
+  outline: string[][];
+}
 
-  if (selector) {
-    const element = await page.$(selector);
-    if (!element) {
-      return `No element found matching selector: ${selector}`;
-    }
-    const text = await element.textContent();
-    return text ?? "";
+/**
+ * Read the page in chunks. Reader mode keeps only the main content, as
+ * Markdown with headings, lists, tables and link URLs; text mode returns all
+ * visible text. Returns undefined if the selector matches nothing.
+ */
+export async function getContents(
+  session: BrowserSession,
+  input: z.input<typeof getContentsSchema> = {}
+): Promise<GetContentsResult | undefined> {
+  const { selector, page: requested, mode } = getContentsSchema.parse(input);
+  const { page } = session;
+
+  let readable: ReadableDocument | undefined;
+  if (mode === "reader") {
+    readable = await extractReadable(page, selector);
+  } else {
+    // Visible text only, as laid out; textContent for elements without layout
+    const text = await page.evaluate((selector) => {
+      const root = selector ? document.querySelector(selector) : document.body;
+      if (!root) return undefined;
+      return root instanceof HTMLElement ? root.innerText : root.textContent ?? "";
+    }, selector);
+    readable = text === undefined
+      ? undefined
+      : { title: await page.title(), source: selector ?? "body", markdown: text };
   }
+  if (!readable) return undefined;
 
-  // Get visible text content instead of full HTML to avoid overwhelming the model
-  const text = await page.evaluate(() => document.body.innerText);
-  // Truncate if too long
-  const maxLength = 10000;
-  if (text.length > maxLength) {
-    return text.slice(0, maxLength) + "\n\n[Content truncated...]";
-  }
-  return text;
+  const chunks = chunkMarkdown(readable.markdown);
+  const index = Math.min(requested, chunks.length) - 1;
+  return {
+    title: readable.title,
+    url: page.url(),
+    mode,
+    source: readable.source,
+    content: chunks[index]!,
+    page: index + 1,
+    pages: chunks.length,
+    outline: chunks.map(chunkHeadings),
+  };
 }
 
 export const reloadSchema = z.object({
@@ -361,16 +378,18 @@ export interface ReloadResult {
 }
 
 export async function reload(
-  page: Page,
+  session: BrowserSession,
   input: z.input<typeof reloadSchema> = {}
 ): Promise<ReloadResult> {
   const { waitUntil } = reloadSchema.parse(input);
+  const { page } = session;
   await page.reload({ waitUntil });
-  // Extra delay to ensure rendering is complete
-  await page.waitForTimeout(500);
+  const settled = await settle(page, session.settleSettings);
   return {
-    message: `Page reloaded (waited for ${waitUntil})`,
-    screenshot: await takeScreenshot(page),
+    message: `Page reloaded (waited for ${waitUntil}). ${describeSettle(
+      settled
+    )}`,
+    screenshot: await takeScreenshot(session),
   };
 }
 
@@ -405,11 +424,12 @@ export interface QueryResult {
 }
 
 export async function queryElementViaCssSelector(
-  page: Page,
+  session: BrowserSession,
   input: QueryElementViaCssSelectorInput
 ): Promise<QueryResult> {
   const { selector, attribute, all } =
     queryElementViaCssSelectorSchema.parse(input);
+  const { page } = session;
 
   if (all) {
     const elements = await page.$$(selector);
@@ -450,8 +470,10 @@ export type ScreenshotInput = z.infer<typeof screenshotSchema>;
 
 export type ScreenshotResult = ScreenshotData;
 
-export async function screenshot(page: Page): Promise<ScreenshotResult> {
-  return takeScreenshot(page);
+export async function screenshot(
+  session: BrowserSession
+): Promise<ScreenshotResult> {
+  return takeScreenshot(session);
 }
 
 // Labeled screenshot tool - shows numbered clickable elements
@@ -462,9 +484,72 @@ export type LabeledScreenshotInput = z.infer<typeof labeledScreenshotSchema>;
 export type LabeledScreenshotResult = LabeledScreenshotData;
 
 export async function labeledScreenshot(
-  page: Page
+  session: BrowserSession
 ): Promise<LabeledScreenshotResult> {
-  return takeLabeledScreenshot(page);
+  return takeLabeledScreenshot(session);
+}
+
+// List elements tool - page through every detected element, including off-screen ones
+export const listElementsSchema = z.object({
+  offset: z
+    .number()
+    .optional()
+    .default(0)
+    .describe("Number of matching elements to skip"),
+  limit: z
+    .number()
+    .optional()
+    .default(30)
+    .describe("Maximum number of elements to return"),
+  type: z
+    .enum(["link", "button", "input", "other"])
+    .optional()
+    .describe("Only list elements of this kind"),
+  text: z
+    .string()
+    .optional()
+    .describe(
+      "Only list elements whose name, text, value or link target contains this text (case-insensitive)"
+    ),
+});
+
+export type ListElementsInput = z.infer<typeof listElementsSchema>;
+
+export interface ListElementsResult {
+  elements: LabeledElement[];
+  // Elements matching the filter, before offset and limit are applied
+  total: number;
+  offset: number;
+}
+
+/**
+ * Detect every element on the page and return one page of them. The detection
+ * replaces the session's label map, so the labels listed can be clicked; as
+ * elements in the viewport are numbered first, the labels on the latest
+ * screenshot keep their numbers unless the page changed.
+ */
+export async function listElements(
+  session: BrowserSession,
+  input: ListElementsInput
+): Promise<ListElementsResult> {
+  const { offset, limit, type, text } = listElementsSchema.parse(input);
+  const detected = await detectClickableElements(session.page);
+  session.setDetectedElements(detected);
+
+  const needle = text?.toLowerCase();
+  const matching = detected.filter(
+    (el) =>
+      (!type || getElementCategory(el) === type) &&
+      (!needle ||
+        [el.name, el.text, el.value, el.href].some((value) =>
+          value?.toLowerCase().includes(needle)
+        ))
+  );
+  return {
+    elements: matching.slice(offset, offset + Math.max(1, limit)),
+    total: matching.length,
+    offset,
+  };
 }
 
 // Click by label tool - click on a numbered element
@@ -472,8 +557,21 @@ export const clickByLabelSchema = z.object({
   label: z
     .number()
     .describe(
-      "The label number of the element to click (from labeled screenshot)"
+      "The label number of the element to click (from a labeled screenshot or listElements)"
     ),
+  button: z
+    .enum(["left", "right", "middle"])
+    .optional()
+    .default("left")
+    .describe('Which mouse button to use; "right" opens the context menu'),
+  clickCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(3)
+    .optional()
+    .default(1)
+    .describe("Number of clicks (e.g., 2 for double-click)"),
 });
 
 export type ClickByLabelInput = z.infer<typeof clickByLabelSchema>;
@@ -481,216 +579,1124 @@ export type ClickByLabelInput = z.infer<typeof clickByLabelSchema>;
 export interface ClickByLabelResult {
   message: string;
   screenshot: LabeledScreenshotData;
-  newPage?: Page; // If a new tab was opened, this is the new page
+  newPage?: Page; // If a new tab was opened, this is the new page (already the session's active page)
+  stale?: boolean; // The labeled element has gone or changed, so nothing was clicked
 }
 
-// Store the last detected elements for click-by-label
-let lastDetectedElements: LabeledElement[] = [];
+/**
+ * Find a previously labeled element on the page as it is now, by fingerprint.
+ * Returns undefined if it is gone or has changed. If several elements share
+ * the fingerprint, the one closest to where it was wins. Pass `detected` to
+ * reuse a detection when looking up several elements.
+ */
+async function findCurrentElement(
+  session: BrowserSession,
+  element: LabeledElement,
+  detected?: LabeledElement[]
+): Promise<LabeledElement | undefined> {
+  const current = detected ?? (await detectClickableElements(session.page));
+  const matches = current.filter(
+    (candidate) => candidate.fingerprint === element.fingerprint
+  );
+  const distance = (candidate: LabeledElement) =>
+    Math.abs(candidate.x - element.x) + Math.abs(candidate.y - element.y);
+  return matches.sort((a, b) => distance(a) - distance(b))[0];
+}
 
-export function setLastDetectedElements(elements: LabeledElement[]): void {
-  lastDetectedElements = elements;
+function staleLabelMessage(
+  label: number,
+  labeled: LabeledElement,
+  consequence: string
+): string {
+  return `Stale label [${label}]: the ${labeled.role} "${labeled.name}" from the last screenshot is no longer on the page or has changed, so ${consequence}. Use the labels from this new screenshot.`;
 }
 
-export async function clickByLabel(
-  page: Page,
-  input: ClickByLabelInput
-): Promise<ClickByLabelResult> {
-  const { label } = clickByLabelSchema.parse(input);
+// Where a labeled element is now, and the page point to aim the mouse at
+type LabelTarget =
+  | { element: LabeledElement; point: Point; scrolled: boolean }
+  | { message: string; stale?: boolean };
 
-  const element = lastDetectedElements.find((el) => el.label === label);
+/**
+ * Find the element a label from the latest screenshot or listElements stands
+ * for, scrolling it into view if `scroll` is set. The point is the center of
+ * the element, or of its visible part if it is larger than the viewport.
+ * `consequence` completes the message when the element can't be used, e.g.
+ * "nothing was clicked".
+ */
+async function locateLabel(
+  session: BrowserSession,
+  label: number,
+  consequence: string,
+  scroll = true
+): Promise<LabelTarget> {
+  const labeled = session.lastDetectedElements.find((el) => el.label === label);
+  if (!labeled) {
+    return {
+      message: `Element with label ${label} not found, so ${consequence}. Use the labels from this new screenshot.`,
+    };
+  }
 
+  // Labels are renumbered on every screenshot and the page may have changed
+  // since, so use the element the model saw, wherever it is now
+  let element = await findCurrentElement(session, labeled);
+  let scrolled = false;
+  if (
+    scroll &&
+    element?.visibility &&
+    (await scrollElementIntoView(session.page, element))
+  ) {
+    scrolled = true;
+    element = await findCurrentElement(session, labeled);
+  }
   if (!element) {
-    // Take a new labeled screenshot to show current state
-    const newScreenshot = await takeLabeledScreenshot(page);
-    lastDetectedElements = newScreenshot.elements;
+    return { message: staleLabelMessage(label, labeled, consequence), stale: true };
+  }
+  if (element.visibility === "offscreen") {
     return {
-      message: `Element with label ${label} not found. Available labels: ${lastDetectedElements
-        .map((e) => e.label)
-        .join(", ")}`,
-      screenshot: newScreenshot,
+      message: scroll
+        ? `Element [${label}] "${element.text}" (${element.type}) could not be scrolled into view, so ${consequence}.`
+        : `Element [${label}] "${element.text}" (${element.type}) is off-screen, so ${consequence}.`,
     };
   }
 
-  // Click at the center of the element
-  const centerX = element.x + element.width / 2;
-  const centerY = element.y + element.height / 2;
-
-  // If it's a link, we might navigate or open a new tab - need special handling
-  const isLink = element.type === "link";
-
-  // Get the browser context to detect new pages/tabs
-  const context = page.context();
+  const { viewport } = session.geometry;
+  const point = {
+    x: Math.min(viewport.width - 1, Math.max(0, element.x + element.width / 2)),
+    y: Math.min(viewport.height - 1, Math.max(0, element.y + element.height / 2)),
+  };
+  return { element, point, scrolled };
+}
 
-  if (isLink) {
-    // Listen for new pages (tabs) that might open
-    const newPagePromise = context.waitForEvent("page", { timeout: 5000 }).catch(() => null);
+// e.g. "clicked", "double-clicked", "right-clicked"
+function clickVerb(button: "left" | "right" | "middle", clickCount: number): string {
+  if (button !== "left") return `${button}-clicked`;
+  if (clickCount === 2) return "double-clicked";
+  return clickCount > 2 ? `clicked ${clickCount} times` : "clicked";
+}
 
-    // Also listen for navigation in current page
-    const navigationPromise = page
-      .waitForNavigation({ waitUntil: "domcontentloaded", timeout: 5000 })
-      .catch(() => null);
+export async function clickByLabel(
+  session: BrowserSession,
+  input: ClickByLabelInput
+): Promise<ClickByLabelResult> {
+  const { label, button, clickCount } = clickByLabelSchema.parse(input);
+  const { page } = session;
 
-    // Click the link
-    await page.mouse.click(centerX, centerY);
+  const target = await locateLabel(session, label, "nothing was clicked");
+  if (!("element" in target)) {
+    // Take a new labeled screenshot to show current state
+    const newScreenshot = await takeLabeledScreenshot(session);
+    return { ...target, screenshot: newScreenshot };
+  }
+  const { element, scrolled } = target;
+  const { x: centerX, y: centerY } = target.point;
+  const verb = clickVerb(button, clickCount);
+  const action = scrolled
+    ? `Scrolled into view and ${verb}`
+    : verb[0]!.toUpperCase() + verb.slice(1);
+
+  // Any click may navigate or open a new tab (target=_blank links, window.open),
+  // so watch for new tabs while the page settles
+  const opened: Page[] = [];
+  const onPage = (newPage: Page) => opened.push(newPage);
+  session.context.on("page", onPage);
+  let settled: SettleResult;
+  try {
+    await page.mouse.click(centerX, centerY, { button, clickCount });
+    settled = await settle(page, session.settleSettings);
+  } finally {
+    session.context.off("page", onPage);
+  }
 
-    // Wait for either new tab or navigation
-    const [newPage, navigationResult] = await Promise.all([
-      newPagePromise,
-      navigationPromise,
-    ]);
+  // If a new tab opened, switch the session to it
+  const newPage = opened.find((tab) => !tab.isClosed());
+  if (newPage) {
+    const newPageSettled = await settle(newPage, session.settleSettings);
+    await session.setActivePage(newPage);
 
-    // If a new tab opened, switch to it
-    if (newPage) {
-      // Wait for the new page to load
-      await newPage.waitForLoadState("domcontentloaded").catch(() => {});
-      await newPage.waitForTimeout(500);
-
-      // Close the old page and update our reference
-      // Note: We need to return the new page somehow - for now, bring it to front
-      await newPage.bringToFront();
-
-      // Take screenshot from the NEW page
-      const newScreenshot = await takeLabeledScreenshot(newPage);
-      lastDetectedElements = newScreenshot.elements;
-
-      return {
-        message: `Clicked element [${label}] "${element.text}" (${element.type}) - opened in new tab at ${newPage.url()}`,
-        screenshot: newScreenshot,
-        newPage, // Return the new page so caller can update their reference
-      };
-    }
+    // Take screenshot from the NEW page
+    const newScreenshot = await takeLabeledScreenshot(session);
 
-    // Extra wait for page to fully settle
-    await page.waitForTimeout(500);
-  } else {
-    await page.mouse.click(centerX, centerY);
-    await page.waitForTimeout(500);
+    return {
+      message: `${action} element [${label}] "${element.text}" (${
+        element.type
+      }) - opened in new tab [${session.tabId(newPage)}] at ${newPage.url()}, now the active tab. The previous tab [${session.tabId(
+        page
+      )}] is still open; use switchTab to go back to it. ${describeSettle(
+        newPageSettled
+      )}`,
+      screenshot: newScreenshot,
+      newPage,
+    };
   }
 
   // Take a new labeled screenshot after clicking (with retry for navigation edge cases)
   let newScreenshot: LabeledScreenshotData | null = null;
   for (let retry = 0; retry < 3; retry++) {
     try {
-      newScreenshot = await takeLabeledScreenshot(page);
+      newScreenshot = await takeLabeledScreenshot(session);
       break;
     } catch {
-      // If context was destroyed, wait a bit more and retry
+      // If the context was destroyed by a late navigation, let it settle and retry
       if (retry === 2) {
         throw new Error("Failed to take screenshot after clicking");
       }
-      await page.waitForTimeout(1000);
+      settled = await settle(page, session.settleSettings);
     }
   }
 
   if (!newScreenshot) {
     throw new Error("Failed to take screenshot after clicking");
   }
-  lastDetectedElements = newScreenshot.elements;
 
+  // Report the position as the model sees it in the screenshot
+  const shown = toImagePoint(session.geometry, { x: centerX, y: centerY });
   return {
-    message: `Clicked element [${label}] "${element.text}" (${
+    message: `${action} element [${label}] "${element.text}" (${
       element.type
-    }) at (${Math.round(centerX)}, ${Math.round(centerY)})`,
+    }) at (${Math.round(shown.x)}, ${Math.round(shown.y)}). ${describeSettle(
+      settled
+    )}`,
     screenshot: newScreenshot,
   };
 }
 
-// Click tool
-export const clickSchema = z.object({
-  x: z
-    .number()
-    .describe("The x coordinate to click (pixels from left edge of viewport)"),
-  y: z
-    .number()
-    .describe("The y coordinate to click (pixels from top edge of viewport)"),
-  button: z
-    .enum(["left", "right", "middle"])
-    .optional()
-    .default("left")
-    .describe("Which mouse button to use"),
-  clickCount: z
+export interface PointerResult {
+  message: string;
+  screenshot: LabeledScreenshotData;
+  stale?: boolean; // A labeled element has gone or changed, so the mouse wasn't used
+}
+
+export const hoverByLabelSchema = z.object({
+  label: z
     .number()
-    .optional()
-    .default(1)
-    .describe("Number of clicks (e.g., 2 for double-click)"),
+    .describe("The label number of the element to move the mouse over"),
 });
 
-export type ClickInput = z.infer<typeof clickSchema>;
+export type HoverByLabelInput = z.infer<typeof hoverByLabelSchema>;
 
-export interface ClickResult {
-  message: string;
-  screenshot: ScreenshotData;
+/**
+ * Move the mouse over a labeled element and leave it there, so menus and
+ * tooltips that open on hover stay open for the screenshot.
+ */
+export async function hoverByLabel(
+  session: BrowserSession,
+  input: HoverByLabelInput
+): Promise<PointerResult> {
+  const { label } = hoverByLabelSchema.parse(input);
+  const target = await locateLabel(session, label, "the mouse was not moved");
+  if (!("element" in target)) {
+    return { ...target, screenshot: await takeLabeledScreenshot(session) };
+  }
+  const { element, point } = target;
+  await session.page.mouse.move(point.x, point.y);
+  // Hover menus often open after a short delay or with an animation
+  const settled = await settle(session.page, session.settleSettings);
+  return {
+    message: `Hovering over element [${label}] "${element.text}" (${
+      element.type
+    }). ${describeSettle(settled)}`,
+    screenshot: await takeLabeledScreenshot(session),
+  };
 }
 
-export async function click(
-  page: Page,
-  input: ClickInput
-): Promise<ClickResult> {
-  const { x, y, button, clickCount } = clickSchema.parse(input);
-  await page.mouse.click(x, y, { button, clickCount });
-  // Wait for any navigation or rendering triggered by the click
-  await page.waitForTimeout(500);
-  // Take screenshot with click indicator showing where we clicked
-  const screenshotWithIndicator = await takeScreenshot(page, { x, y });
+export const dragByLabelSchema = z
+  .object({
+    from: z.number().describe("The label number of the element to drag"),
+    to: z
+      .number()
+      .optional()
+      .describe("The label number of the element to drop it on"),
+    x: z
+      .number()
+      .optional()
+      .describe("The x coordinate in the screenshot to drop it at, instead of a label"),
+    y: z
+      .number()
+      .optional()
+      .describe("The y coordinate in the screenshot to drop it at, instead of a label"),
+  })
+  .refine(
+    ({ to, x, y }) =>
+      to !== undefined ? x === undefined && y === undefined : x !== undefined && y !== undefined,
+    { message: "Give either a label to drop on (to) or coordinates (x and y), not both" }
+  );
+
+export type DragByLabelInput = z.infer<typeof dragByLabelSchema>;
+
+/**
+ * Press the mouse on a labeled element, move it to another labeled element or
+ * to screenshot coordinates in steps, and release it. Works for HTML5
+ * drag-and-drop, sortable lists and sliders.
+ */
+export async function dragByLabel(
+  session: BrowserSession,
+  input: DragByLabelInput
+): Promise<PointerResult> {
+  const { from, to, x, y } = dragByLabelSchema.parse(input);
+  const { page } = session;
+
+  const source = await locateLabel(session, from, "nothing was dragged");
+  if (!("element" in source)) {
+    return { ...source, screenshot: await takeLabeledScreenshot(session) };
+  }
+
+  // Scrolling to the drop target could move the source out of view, so the
+  // target has to be in view together with it
+  let end: Point;
+  let destination: string;
+  if (to !== undefined) {
+    const target = await locateLabel(session, to, "nothing was dragged", false);
+    if (!("element" in target)) {
+      return { ...target, screenshot: await takeLabeledScreenshot(session) };
+    }
+    end = target.point;
+    destination = `element [${to}] "${target.element.text}" (${target.element.type})`;
+  } else {
+    end = toPagePoint(session.geometry, { x: x!, y: y! });
+    destination = `(${x}, ${y})`;
+  }
+
+  const start = source.point;
+  await page.mouse.move(start.x, start.y);
+  await page.mouse.down();
+  // Moving in steps fires the intermediate events drag handlers wait for
+  await page.mouse.move(end.x, end.y, { steps: 10 });
+  await page.mouse.up();
+  const settled = await settle(page, session.settleSettings);
+
   return {
-    message: `Clicked at coordinates (${x}, ${y})`,
-    screenshot: screenshotWithIndicator,
+    message: `Dragged element [${from}] "${source.element.text}" (${
+      source.element.type
+    }) to ${destination}. ${describeSettle(settled)}`,
+    screenshot: await takeLabeledScreenshot(session),
   };
 }
 
-// Scroll tool
-export const scrollSchema = z.object({
-  direction: z
-    .enum(["up", "down", "left", "right"])
-    .describe("Direction to scroll"),
-  amount: z
-    .number()
-    .optional()
-    .default(500)
-    .describe("Amount to scroll in pixels"),
-  selector: z
-    .string()
-    .optional()
-    .describe(
-      "Optional CSS selector to scroll within a specific element. If not provided, scrolls the page."
-    ),
-});
+// The value a form field currently shows, as the model would read it
+export interface FieldValue {
+  label: number;
+  // Both empty if the label couldn't be resolved to an element
+  role: string;
+  name: string;
+  // e.g. "alice@example.com", "checked", "Germany"; unset if the field couldn't be read
+  value?: string;
+  // Why the value couldn't be set, if it failed
+  error?: string;
+}
 
-export type ScrollInput = z.infer<typeof scrollSchema>;
+export interface FormToolResult {
+  message: string;
+  fields: FieldValue[];
+  screenshot: LabeledScreenshotData;
+}
 
-export async function scroll(page: Page, input: ScrollInput): Promise<string> {
-  const { direction, amount, selector } = scrollSchema.parse(input);
+// How a value is applied to a form field
+type FieldKind = "select" | "checkable" | "text";
 
-  const deltaX =
-    direction === "left" ? -amount : direction === "right" ? amount : 0;
-  const deltaY =
-    direction === "up" ? -amount : direction === "down" ? amount : 0;
+const CHECKABLE_ROLES = new Set([
+  "checkbox",
+  "radio",
+  "switch",
+  "menuitemcheckbox",
+  "menuitemradio",
+]);
 
-  if (selector) {
-    const element = await page.$(selector);
-    if (!element) {
-      return `No element found matching selector: ${selector}`;
-    }
-    await element.evaluate(
-      (el, { dx, dy }) => {
-        el.scrollBy(dx, dy);
-      },
-      { dx: deltaX, dy: deltaY }
-    );
-    return `Scrolled ${direction} by ${amount}px within element: ${selector}`;
-  }
+// Playwright waits this long for a field to become actionable
+const FIELD_TIMEOUT = 5000;
 
-  await page.evaluate("([dx, dy]) => window.scrollBy(dx, dy)", [
-    deltaX,
-    deltaY,
-  ]);
-  return `Scrolled ${direction} by ${amount}px`;
+function fieldKind(element: LabeledElement): FieldKind {
+  if (element.type === "select") return "select";
+  if (CHECKABLE_ROLES.has(element.role)) return "checkable";
+  return "text";
 }
 
-// Type tool
-export const typeSchema = z.object({
-  selector: z
-    .string()
+type FieldLookup =
+  | { element: LabeledElement; handle: ElementHandle<Element> }
+  | { error: string };
+
+/**
+ * Find the current element and a handle to it for a label from the latest
+ * detection, refusing labels whose element has gone or changed.
+ */
+async function findLabeledField(
+  session: BrowserSession,
+  label: number,
+  detected: LabeledElement[]
+): Promise<FieldLookup> {
+  const labeled = session.lastDetectedElements.find((el) => el.label === label);
+  if (!labeled) {
+    return { error: `Element with label ${label} not found` };
+  }
+  const element = await findCurrentElement(session, labeled, detected);
+  const handle = element && (await resolveElement(session.page, element));
+  if (!element || !handle) {
+    return { error: staleLabelMessage(label, labeled, "it was left unchanged") };
+  }
+  return { element, handle };
+}
+
+// Read back what a field shows now; passwords are masked
+async function readFieldValue(
+  handle: ElementHandle<Element>
+): Promise<string | undefined> {
+  return handle
+    .evaluate((el) => {
+      if (el instanceof HTMLSelectElement) {
+        return Array.from(el.selectedOptions)
+          .map((option) => option.text.trim())
+          .join(", ");
+      }
+      if (
+        el instanceof HTMLInputElement &&
+        (el.type === "checkbox" || el.type === "radio")
+      ) {
+        return el.checked ? "checked" : "unchecked";
+      }
+      const ariaChecked = el.getAttribute("aria-checked");
+      if (ariaChecked !== null) {
+        return ariaChecked === "mixed"
+          ? "partially checked"
+          : ariaChecked === "true"
+          ? "checked"
+          : "unchecked";
+      }
+      if (el instanceof HTMLInputElement) {
+        return el.type === "password" && el.value ? "••••••" : el.value;
+      }
+      if (el instanceof HTMLTextAreaElement) return el.value;
+      return (el as HTMLElement).innerText;
+    })
+    .catch(() => undefined);
+}
+
+interface SelectOption {
+  text: string;
+  value: string;
+  selected: boolean;
+  disabled: boolean;
+}
+
+async function readOptions(
+  handle: ElementHandle<Element>
+): Promise<SelectOption[]> {
+  return handle.evaluate((el) =>
+    el instanceof HTMLSelectElement
+      ? Array.from(el.options).map((option) => ({
+          text: option.text.trim(),
+          value: option.value,
+          selected: option.selected,
+          disabled: option.disabled,
+        }))
+      : []
+  );
+}
+
+function formatOptions(options: SelectOption[]): string {
+  return options
+    .map(
+      (option) =>
+        `- "${option.text}"${
+          option.value !== option.text ? ` (value "${option.value}")` : ""
+        }${option.selected ? " (selected)" : ""}${
+          option.disabled ? " (disabled)" : ""
+        }`
+    )
+    .join("\n");
+}
+
+/**
+ * Set one field to `value` according to its kind: text is typed (replacing the
+ * current text if `clear`), a select picks the option whose text or value
+ * matches (ignoring case), and checkboxes, radios and switches are checked or
+ * unchecked. Throws with a message for the model if the value can't be set.
+ */
+async function applyFieldValue(
+  page: Page,
+  element: LabeledElement,
+  handle: ElementHandle<Element>,
+  value: string | boolean,
+  clear: boolean
+): Promise<void> {
+  switch (fieldKind(element)) {
+    case "select": {
+      const wanted = String(value).trim().toLowerCase();
+      const options = await readOptions(handle);
+      const match =
+        options.find((option) => option.text.toLowerCase() === wanted) ??
+        options.find((option) => option.value.toLowerCase() === wanted);
+      if (!match) {
+        throw new Error(
+          `No option "${value}" in [${element.label}]. Available options:\n${formatOptions(
+            options
+          )}`
+        );
+      }
+      await handle.selectOption(
+        { value: match.value },
+        { timeout: FIELD_TIMEOUT }
+      );
+      return;
+    }
+    case "checkable": {
+      const checked =
+        typeof value === "boolean" ? value : !/^(false|no|off|0)$/i.test(value);
+      await handle.setChecked(checked, { timeout: FIELD_TIMEOUT });
+      return;
+    }
+    case "text": {
+      const text = String(value);
+      if (clear) {
+        // fill also handles date, time and color inputs given in their ISO format
+        await handle.fill(text, { timeout: FIELD_TIMEOUT });
+      } else {
+        await handle.focus();
+        await handle.press("End");
+        await page.keyboard.type(text);
+      }
+    }
+  }
+}
+
+// First line of a Playwright error, without the call log
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.split("\n")[0] ?? message;
+}
+
+interface FieldUpdate {
+  label: number;
+  value: string | boolean;
+}
+
+// Longest wait for a field's change handlers to settle, in ms; the whole
+// form settles once more before the screenshot
+const FIELD_SETTLE_BUDGET = 1000;
+
+/**
+ * Apply updates to labeled fields in order, then read back every field and
+ * take a fresh labeled screenshot. Fields that fail are reported and the rest
+ * are still set.
+ */
+async function updateFields(
+  session: BrowserSession,
+  updates: FieldUpdate[],
+  clear: boolean
+): Promise<{ fields: FieldValue[]; screenshot: LabeledScreenshotData }> {
+  const detected = await detectClickableElements(session.page);
+  const fields: FieldValue[] = [];
+
+  for (const { label, value } of updates) {
+    const lookup = await findLabeledField(session, label, detected);
+    if ("error" in lookup) {
+      fields.push({ label, role: "", name: "", error: lookup.error });
+      continue;
+    }
+    const { element, handle } = lookup;
+    const field: FieldValue = { label, role: element.role, name: element.name };
+    try {
+      await applyFieldValue(session.page, element, handle, value, clear);
+    } catch (error) {
+      field.error = describeError(error);
+    }
+    // Let change handlers run before reading back
+    await settle(session.page, {
+      ...session.settleSettings,
+      budget: Math.min(session.settleSettings.budget, FIELD_SETTLE_BUDGET),
+    });
+    field.value = await readFieldValue(handle);
+    await handle.dispose();
+    fields.push(field);
+  }
+
+  await settle(session.page, session.settleSettings);
+  const screenshot = await takeLabeledScreenshot(session);
+  return { fields, screenshot };
+}
+
+// Type by label tool - type into a labeled field
+export const typeByLabelSchema = z.object({
+  label: z.number().describe("The label number of the field to type into"),
+  text: z
+    .string()
+    .describe(
+      "The text to type. Dates, times and colors use the input's format, e.g. 2024-05-31"
+    ),
+  clear: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Replace the field's current text (default) instead of appending to it"),
+});
+
+export type TypeByLabelInput = z.infer<typeof typeByLabelSchema>;
+
+export async function typeByLabel(
+  session: BrowserSession,
+  input: TypeByLabelInput
+): Promise<FormToolResult> {
+  const { label, text, clear } = typeByLabelSchema.parse(input);
+  const { fields, screenshot } = await updateFields(
+    session,
+    [{ label, value: text }],
+    clear
+  );
+  const failed = fields.some((field) => field.error);
+  return {
+    message: failed
+      ? `Could not type into [${label}]`
+      : `${clear ? "Typed" : "Appended"} text into [${label}]`,
+    fields,
+    screenshot,
+  };
+}
+
+// Select option by label tool - pick an option of a labeled <select>
+export const selectOptionByLabelSchema = z.object({
+  label: z.number().describe("The label number of the dropdown"),
+  option: z
+    .string()
+    .optional()
+    .describe(
+      "Visible text or value of the option to select; omit to list the options"
+    ),
+});
+
+export type SelectOptionByLabelInput = z.infer<typeof selectOptionByLabelSchema>;
+
+export interface SelectOptionByLabelResult extends FormToolResult {
+  options: SelectOption[];
+}
+
+export async function selectOptionByLabel(
+  session: BrowserSession,
+  input: SelectOptionByLabelInput
+): Promise<SelectOptionByLabelResult> {
+  const { label, option } = selectOptionByLabelSchema.parse(input);
+
+  const listOptions = async (): Promise<SelectOption[]> => {
+    const lookup = await findLabeledField(
+      session,
+      label,
+      await detectClickableElements(session.page)
+    );
+    if ("error" in lookup) return [];
+    const options = await readOptions(lookup.handle).catch(() => []);
+    await lookup.handle.dispose();
+    return options;
+  };
+
+  const labeled = session.lastDetectedElements.find((el) => el.label === label);
+  if (labeled && labeled.type !== "select") {
+    return {
+      message: `[${label}] is a ${labeled.role}, not a dropdown (<select>). Open it with clickByLabel and pick the option from the screenshot instead.`,
+      fields: [],
+      options: [],
+      screenshot: await takeLabeledScreenshot(session),
+    };
+  }
+
+  if (option === undefined) {
+    const options = await listOptions();
+    const screenshot = await takeLabeledScreenshot(session);
+    return {
+      message:
+        options.length > 0
+          ? `Options of [${label}]:\n${formatOptions(options)}`
+          : `Could not read the options of [${label}]`,
+      fields: [],
+      options,
+      screenshot,
+    };
+  }
+
+  const { fields, screenshot } = await updateFields(
+    session,
+    [{ label, value: option }],
+    true
+  );
+  const failed = fields.some((field) => field.error);
+  const options = failed ? [] : await listOptions();
+  return {
+    message: failed
+      ? `Could not select "${option}" in [${label}]`
+      : `Selected "${option}" in [${label}]. Options:\n${formatOptions(options)}`,
+    fields,
+    options,
+    screenshot,
+  };
+}
+
+// Set checked by label tool - check or uncheck a labeled checkbox, radio or switch
+export const setCheckedByLabelSchema = z.object({
+  label: z
+    .number()
+    .describe("The label number of the checkbox, radio button or switch"),
+  checked: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("true to check (default), false to uncheck"),
+});
+
+export type SetCheckedByLabelInput = z.infer<typeof setCheckedByLabelSchema>;
+
+export async function setCheckedByLabel(
+  session: BrowserSession,
+  input: SetCheckedByLabelInput
+): Promise<FormToolResult> {
+  const { label, checked } = setCheckedByLabelSchema.parse(input);
+  const labeled = session.lastDetectedElements.find((el) => el.label === label);
+  if (labeled && fieldKind(labeled) !== "checkable") {
+    return {
+      message: `[${label}] is a ${labeled.role}, not a checkbox, radio button or switch`,
+      fields: [],
+      screenshot: await takeLabeledScreenshot(session),
+    };
+  }
+  const { fields, screenshot } = await updateFields(
+    session,
+    [{ label, value: checked }],
+    true
+  );
+  const failed = fields.some((field) => field.error);
+  return {
+    message: failed
+      ? `Could not ${checked ? "check" : "uncheck"} [${label}]`
+      : `${checked ? "Checked" : "Unchecked"} [${label}]`,
+    fields,
+    screenshot,
+  };
+}
+
+// Fill form tool - set several labeled fields in one call
+export const fillFormSchema = z.object({
+  fields: z
+    .array(
+      z.object({
+        label: z.number().describe("The label number of the field"),
+        value: z
+          .union([z.string(), z.boolean()])
+          .describe(
+            "Text to type, option to select, or true/false for checkboxes, radios and switches"
+          ),
+      })
+    )
+    .min(1)
+    .describe("The fields to set, in order"),
+});
+
+export type FillFormInput = z.infer<typeof fillFormSchema>;
+
+export async function fillForm(
+  session: BrowserSession,
+  input: FillFormInput
+): Promise<FormToolResult> {
+  const { fields: updates } = fillFormSchema.parse(input);
+  const { fields, screenshot } = await updateFields(session, updates, true);
+  const failed = fields.filter((field) => field.error).length;
+  return {
+    message:
+      failed === 0
+        ? `Filled ${fields.length} fields`
+        : `Filled ${fields.length - failed} of ${fields.length} fields; ${failed} failed`,
+    fields,
+    screenshot,
+  };
+}
+
+// File tools - files are picked from and saved to the session's workspace
+export const uploadFileByLabelSchema = z.object({
+  label: z
+    .number()
+    .describe("The label number of the file input or upload button"),
+  files: z
+    .array(z.string())
+    .min(1)
+    .describe(
+      'Paths of the files to upload, relative to the workspace, e.g. "cv.pdf"'
+    ),
+});
+
+export type UploadFileByLabelInput = z.infer<typeof uploadFileByLabelSchema>;
+
+export interface UploadFileByLabelResult {
+  message: string;
+  screenshot: LabeledScreenshotData;
+  stale?: boolean; // The labeled element has gone or changed, so nothing was uploaded
+}
+
+/**
+ * Put workspace files into a file input. The label can be the input itself or
+ * a button that opens a file chooser, as most upload buttons hide the input.
+ */
+export async function uploadFileByLabel(
+  session: BrowserSession,
+  input: UploadFileByLabelInput
+): Promise<UploadFileByLabelResult> {
+  const { label, files } = uploadFileByLabelSchema.parse(input);
+  const { page, workspace } = session;
+  const refused = async (
+    message: string
+  ): Promise<UploadFileByLabelResult> => ({
+    message,
+    screenshot: await takeLabeledScreenshot(session),
+  });
+
+  if (!workspace) {
+    return refused(
+      "No workspace directory is configured, so nothing can be uploaded."
+    );
+  }
+  let paths: string[];
+  try {
+    paths = await Promise.all(
+      files.map((file) => resolveWorkspaceFile(workspace, file))
+    );
+  } catch (error) {
+    const available = await listWorkspaceFiles(workspace);
+    return refused(
+      `${describeError(error)}, so nothing was uploaded. Files in the workspace: ${
+        available.join(", ") || "(none)"
+      }`
+    );
+  }
+
+  const target = await locateLabel(session, label, "nothing was uploaded");
+  if (!("element" in target)) {
+    return { ...target, screenshot: await takeLabeledScreenshot(session) };
+  }
+  const { element, point } = target;
+  const described = `element [${label}] "${element.text}" (${element.type})`;
+
+  try {
+    const handle = await resolveElement(page, element);
+    const isFileInput = await handle?.evaluate(
+      (el) => el instanceof HTMLInputElement && el.type === "file"
+    );
+    if (handle && isFileInput) {
+      await handle.setInputFiles(paths, { timeout: FIELD_TIMEOUT });
+    } else {
+      const [chooser] = await Promise.all([
+        page
+          .waitForEvent("filechooser", { timeout: FIELD_TIMEOUT })
+          .catch(() => null),
+        page.mouse.click(point.x, point.y),
+      ]);
+      if (!chooser) {
+        return refused(
+          `Clicking ${described} did not open a file chooser, so nothing was uploaded. Use the label of the file input or upload button.`
+        );
+      }
+      if (paths.length > 1 && !chooser.isMultiple()) {
+        await chooser.setFiles([]);
+        return refused(
+          `${described} accepts only one file, so nothing was uploaded.`
+        );
+      }
+      await chooser.setFiles(paths, { timeout: FIELD_TIMEOUT });
+    }
+  } catch (error) {
+    return refused(`Uploading to ${described} failed: ${describeError(error)}`);
+  } finally {
+    // The chooser this opened has been answered
+    session.takeFileChooser();
+  }
+
+  const settled = await settle(page, session.settleSettings);
+  return {
+    message: `Uploaded ${files.join(", ")} to ${described}. ${describeSettle(
+      settled
+    )}`,
+    screenshot: await takeLabeledScreenshot(session),
+  };
+}
+
+export const readDownloadedFileSchema = z.object({
+  path: z
+    .string()
+    .describe(
+      'Path of the file relative to the workspace, as reported when it was downloaded, e.g. "downloads/report.csv"'
+    ),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .default(0)
+    .describe("Character offset to continue reading a long file from"),
+});
+
+export type ReadDownloadedFileInput = z.infer<typeof readDownloadedFileSchema>;
+
+/**
+ * Read a downloaded (or any other workspace) file as text. A bare file name is
+ * also looked up in the downloads folder.
+ */
+export async function readDownloadedFile(
+  session: BrowserSession,
+  input: ReadDownloadedFileInput
+): Promise<WorkspaceFileContents> {
+  const { path, offset } = readDownloadedFileSchema.parse(input);
+  const { workspace } = session;
+  if (!workspace) {
+    throw new Error(
+      "No workspace directory is configured, so there are no downloaded files"
+    );
+  }
+  try {
+    return await readWorkspaceFile(workspace, path, offset);
+  } catch (error) {
+    if (!path.includes("/")) {
+      const download = await readWorkspaceFile(
+        workspace,
+        `${DOWNLOADS_DIR}/${path}`,
+        offset
+      ).catch(() => undefined);
+      if (download) return download;
+    }
+    const available = await listWorkspaceFiles(workspace);
+    throw new Error(
+      `${describeError(error)}. Files in the workspace: ${
+        available.join(", ") || "(none)"
+      }`
+    );
+  }
+}
+
+// Extract tool - reads records matching a schema from tables, lists and cards
+export const extractSchema = z.object({
+  schema: z
+    .record(z.unknown())
+    .describe(
+      "JSON Schema of one record (an object with properties), or of an array of records"
+    ),
+  selector: z
+    .string()
+    .optional()
+    .describe("Optional CSS selector of the part of the page to extract from"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_RECORDS)
+    .optional()
+    .default(50)
+    .describe("Most records to return"),
+});
+
+// Used as a library, the schema can also be a zod schema
+export type ExtractInput = Omit<z.input<typeof extractSchema>, "schema"> & {
+  schema: JsonSchema | ZodTypeAny;
+};
+
+/**
+ * Read records that fit a schema from the page's tables, lists and repeated
+ * cards. Fields are matched to the schema's properties by name, numbers and
+ * yes/no values are converted, and records that fail validation are returned
+ * with the reasons.
+ */
+export async function extract(
+  session: BrowserSession,
+  input: ExtractInput
+): Promise<ExtractResult> {
+  const { selector, limit } = extractSchema.omit({ schema: true }).parse(input);
+  const schema = recordSchemaOf(input.schema);
+  const sets = await findRecordSets(session.page, selector);
+  if (!sets) {
+    throw new Error(`No element found matching selector: ${selector}`);
+  }
+  return extractRecords(sets, schema, limit);
+}
+
+// Export table tool - saves an HTML table to the workspace as CSV or JSON
+export const exportTableSchema = z.object({
+  table: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .default(1)
+    .describe("Which table to export, numbered from 1 in page order"),
+  selector: z
+    .string()
+    .optional()
+    .describe("Optional CSS selector of the table, or of an element containing it"),
+  format: z
+    .enum(["csv", "json"])
+    .optional()
+    .default("csv")
+    .describe("File format"),
+  filename: z
+    .string()
+    .optional()
+    .describe(
+      "Name to save the file under in the workspace's exports folder; made from the page title if not given"
+    ),
+});
+
+export type ExportTableInput = z.input<typeof exportTableSchema>;
+
+export interface ExportTableResult {
+  table: TableData;
+  // All tables found, so the model can pick another
+  tables: TableData[];
+  format: "csv" | "json";
+  content: string;
+  // Relative to the workspace; unset when no workspace is configured
+  path?: string;
+}
+
+/**
+ * Export an HTML table as CSV or JSON (an array of objects keyed by the
+ * headers), saved in the workspace's exports folder if there is a workspace.
+ */
+export async function exportTable(
+  session: BrowserSession,
+  input: ExportTableInput = {}
+): Promise<ExportTableResult> {
+  const { table: index, selector, format, filename } =
+    exportTableSchema.parse(input);
+  const { page, workspace } = session;
+  const tables = await readTables(page, selector);
+  if (!tables) {
+    throw new Error(`No element found matching selector: ${selector}`);
+  }
+  const table = tables[index - 1];
+  if (!table) {
+    throw new Error(
+      tables.length === 0
+        ? "There are no data tables on the page"
+        : `There is no table ${index}; the page has ${tables.length}: ${tables
+            .map(describeTable)
+            .join(", ")}`
+    );
+  }
+
+  const content =
+    format === "csv"
+      ? formatCsv([table.headers, ...table.rows])
+      : JSON.stringify(tableRecords(table), null, 2);
+  if (!workspace) return { table, tables, format, content };
+
+  const stem =
+    filename?.replace(/\.(csv|json)$/i, "") ||
+    `${(await page.title()) || "table"} table ${table.index}`;
+  const path = await saveWorkspaceFile(
+    workspace,
+    EXPORTS_DIR,
+    `${stem}.${format}`,
+    content
+  );
+  return { table, tables, format, content, path };
+}
+
+// Click tool
+export const clickSchema = z.object({
+  x: z
+    .number()
+    .describe("The x coordinate to click (pixels from left edge of the screenshot)"),
+  y: z
+    .number()
+    .describe("The y coordinate to click (pixels from top edge of the screenshot)"),
+  button: z
+    .enum(["left", "right", "middle"])
+    .optional()
+    .default("left")
+    .describe("Which mouse button to use"),
+  clickCount: z
+    .number()
+    .optional()
+    .default(1)
+    .describe("Number of clicks (e.g., 2 for double-click)"),
+});
+
+export type ClickInput = z.infer<typeof clickSchema>;
+
+export interface ClickResult {
+  message: string;
+  screenshot: LabeledScreenshotData;
+}
+
+export async function click(
+  session: BrowserSession,
+  input: ClickInput
+): Promise<ClickResult> {
+  const { x, y, button, clickCount } = clickSchema.parse(input);
+  const { page } = session;
+  // The model gives coordinates in the screenshot, which may be scaled and padded
+  const target = toPagePoint(session.geometry, { x, y });
+  await page.mouse.click(target.x, target.y, { button, clickCount });
+  // Wait for any navigation or rendering triggered by the click
+  const settled = await settle(page, session.settleSettings);
+  // Take labeled screenshot with click indicator showing where we clicked
+  return {
+    message: `Clicked at coordinates (${x}, ${y}). ${describeSettle(settled)}`,
+    screenshot: await takeLabeledScreenshot(session, { x, y }),
+  };
+}
+
+// Scroll tool
+export const scrollSchema = z.object({
+  direction: z
+    .enum(["up", "down", "left", "right"])
+    .describe("Direction to scroll"),
+  amount: z
+    .number()
+    .optional()
+    .default(500)
+    .describe("Amount to scroll in pixels"),
+  selector: z
+    .string()
+    .optional()
+    .describe(
+      "Optional CSS selector to scroll within a specific element. If not provided, scrolls the page."
+    ),
+});
+
+export type ScrollInput = z.infer<typeof scrollSchema>;
+
+export async function scroll(
+  session: BrowserSession,
+  input: ScrollInput
+): Promise<string> {
+  const { direction, amount, selector } = scrollSchema.parse(input);
+  const { page } = session;
+
+  const deltaX =
+    direction === "left" ? -amount : direction === "right" ? amount : 0;
+  const deltaY =
+    direction === "up" ? -amount : direction === "down" ? amount : 0;
+
+  if (selector) {
+    const element = await page.$(selector);
+    if (!element) {
+      return `No element found matching selector: ${selector}`;
+    }
+    await element.evaluate(
+      (el, { dx, dy }) => {
+        el.scrollBy(dx, dy);
+      },
+      { dx: deltaX, dy: deltaY }
+    );
+    // Scrolling may load more content
+    const settled = await settle(page, session.settleSettings);
+    return `Scrolled ${direction} by ${amount}px within element: ${selector}. ${describeSettle(
+      settled
+    )}`;
+  }
+
+  await page.evaluate("([dx, dy]) => window.scrollBy(dx, dy)", [
+    deltaX,
+    deltaY,
+  ]);
+  const settled = await settle(page, session.settleSettings);
+  return `Scrolled ${direction} by ${amount}px. ${describeSettle(settled)}`;
+}
+
+// Type tool
+export const typeSchema = z.object({
+  selector: z
+    .string()
     .describe("The CSS selector of the input element to type into"),
   text: z.string().describe("The text to type"),
   delay: z
@@ -709,9 +1715,12 @@ export const typeSchema = z.object({
 
 export type TypeInput = z.infer<typeof typeSchema>;
 
-export async function type(page: Page, input: TypeInput): Promise<string> {
+export async function type(
+  session: BrowserSession,
+  input: TypeInput
+): Promise<string> {
   const { selector, text, delay, clear } = typeSchema.parse(input);
-  const element = await page.$(selector);
+  const element = await session.page.$(selector);
   if (!element) {
     return `No element found matching selector: ${selector}`;
   }
@@ -721,3 +1730,429 @@ export async function type(page: Page, input: TypeInput): Promise<string> {
   await element.type(text, { delay });
   return `Typed "${text}" into element: ${selector}`;
 }
+
+// Keyboard tool - type text at the current focus (click an input first)
+export const keyboardSchema = z.object({
+  text: z.string().describe("The text to type at the current cursor position"),
+});
+
+export type KeyboardInput = z.infer<typeof keyboardSchema>;
+
+export async function keyboard(
+  session: BrowserSession,
+  input: KeyboardInput
+): Promise<string> {
+  const { text } = keyboardSchema.parse(input);
+  await session.page.keyboard.type(text);
+  // Typing may bring up suggestions
+  const settled = await settle(session.page, session.settleSettings);
+  return `Typed "${text}". ${describeSettle(settled)}`;
+}
+
+// Press tool - press a single key
+export const pressSchema = z.object({
+  key: z
+    .string()
+    .describe(
+      'The key or key combination to press, e.g. "Enter", "Tab", "Escape", "ArrowDown", "Control+L", "Shift+Tab"'
+    ),
+  repeat: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .default(1)
+    .describe("How many times to press it"),
+});
+
+export type PressInput = z.infer<typeof pressSchema>;
+
+// Names models commonly use for keys Playwright spells differently
+const KEY_ALIASES: Record<string, string> = {
+  ctrl: "Control",
+  control: "Control",
+  cmd: "Meta",
+  command: "Meta",
+  meta: "Meta",
+  win: "Meta",
+  alt: "Alt",
+  option: "Alt",
+  shift: "Shift",
+  esc: "Escape",
+  return: "Enter",
+  del: "Delete",
+  space: "Space",
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight",
+  pgup: "PageUp",
+  pgdn: "PageDown",
+};
+
+/**
+ * Turn a key combination like "ctrl + shift + t" into Playwright's
+ * "Control+Shift+T" form.
+ */
+function normalizeKeyCombination(key: string): string {
+  // A "+" at the end is the plus key itself, as in "Control++"
+  return key
+    .split(/\+(?=.)/)
+    .map((part) => part.trim())
+    .map((part, _index, parts) => {
+      const alias = KEY_ALIASES[part.toLowerCase()];
+      if (alias) return alias;
+      // Letters pressed with a modifier are named in upper case, as in Control+L
+      return parts.length > 1 && part.length === 1 ? part.toUpperCase() : part;
+    })
+    .join("+");
+}
+
+export async function press(
+  session: BrowserSession,
+  input: PressInput
+): Promise<string> {
+  const { key, repeat } = pressSchema.parse(input);
+  const combination = normalizeKeyCombination(key);
+  for (let i = 0; i < repeat; i++) {
+    await session.page.keyboard.press(combination);
+  }
+  // Enter often submits a form
+  const settled = await settle(session.page, session.settleSettings);
+  const times = repeat > 1 ? ` ${repeat} times` : "";
+  return `Pressed ${combination}${times}. ${describeSettle(settled)}`;
+}
+
+// Dialog tool - answers the alert, confirm, prompt or beforeunload dialog the page is showing
+export const respondToDialogSchema = z.object({
+  action: z
+    .enum(["accept", "dismiss"])
+    .describe(
+      'How to answer: "accept" is OK (or Leave for a beforeunload dialog), "dismiss" is Cancel (or Stay)'
+    ),
+  promptText: z
+    .string()
+    .optional()
+    .describe("Text to enter into a prompt dialog before accepting it"),
+});
+
+export type RespondToDialogInput = z.infer<typeof respondToDialogSchema>;
+
+export async function respondToDialog(
+  session: BrowserSession,
+  input: RespondToDialogInput
+): Promise<string> {
+  const { action, promptText } = respondToDialogSchema.parse(input);
+  const dialog = session.openDialog;
+  if (!dialog) {
+    return "No dialog is open.";
+  }
+  await session.answerDialog(action === "accept", promptText);
+  const entered =
+    dialog.type === "prompt" && action === "accept" && promptText !== undefined
+      ? ` with "${promptText}"`
+      : "";
+  return `${action === "accept" ? "Accepted" : "Dismissed"} the ${
+    dialog.type
+  } dialog "${dialog.message}"${entered}`;
+}
+
+// Wait tool - waits for something the model expects to happen on the page
+export const waitForSchema = z
+  .object({
+    text: z
+      .string()
+      .optional()
+      .describe("Wait until this text is visible on the page"),
+    label: z
+      .number()
+      .optional()
+      .describe("Wait until the element with this label is on the page and enabled"),
+    url: z
+      .string()
+      .optional()
+      .describe(
+        "Wait until the page URL contains this text, or matches it if written as /regex/"
+      ),
+    gone: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe("Wait for the text or element to disappear instead"),
+    timeout: z
+      .number()
+      .int()
+      .min(0)
+      .max(60_000)
+      .optional()
+      .default(10_000)
+      .describe("Longest time to wait, in ms"),
+  })
+  .refine(
+    ({ text, label, url }) =>
+      [text, label, url].filter((value) => value !== undefined).length === 1,
+    { message: "Give exactly one of text, label or url" }
+  );
+
+export type WaitForInput = z.infer<typeof waitForSchema>;
+
+// How often waitFor looks for a labeled element
+const LABEL_POLL_INTERVAL = 500;
+
+// A URL test from a substring or a /regex/ with optional flags
+function urlMatcher(pattern: string): (url: string) => boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    const compiled = new RegExp(regex[1]!, regex[2]);
+    return (url) => compiled.test(url);
+  }
+  return (url) => url.includes(pattern);
+}
+
+/**
+ * Wait until text appears or disappears, a labeled element is there and
+ * enabled (or gone), or the URL matches, then let the page settle.
+ */
+export async function waitFor(
+  session: BrowserSession,
+  input: WaitForInput
+): Promise<string> {
+  const { text, label, url, gone, timeout } = waitForSchema.parse(input);
+  const { page } = session;
+  const start = Date.now();
+
+  let condition: string;
+  let met: boolean;
+  if (text !== undefined) {
+    condition = `"${text}" to ${gone ? "disappear" : "appear"}`;
+    met = await page
+      .getByText(text)
+      .first()
+      .waitFor({ state: gone ? "hidden" : "visible", timeout })
+      .then(
+        () => true,
+        () => false
+      );
+  } else if (url !== undefined) {
+    const matches = urlMatcher(url);
+    condition = `the URL to match ${url}`;
+    met = await page
+      .waitForURL((current) => matches(current.href), {
+        waitUntil: "commit",
+        timeout,
+      })
+      .then(
+        () => true,
+        () => false
+      );
+  } else {
+    const labeled = session.lastDetectedElements.find(
+      (el) => el.label === label
+    );
+    if (!labeled) {
+      return `Element with label ${label} not found, so nothing was waited for.`;
+    }
+    condition = `element [${label}] "${labeled.text}" (${labeled.type}) to ${
+      gone ? "disappear" : "be there and enabled"
+    }`;
+    met = false;
+    while (!met) {
+      const element = await findCurrentElement(session, labeled).catch(
+        () => undefined
+      );
+      met = gone ? !element : !!element && !element.disabled;
+      if (met || Date.now() - start >= timeout) break;
+      await page.waitForTimeout(LABEL_POLL_INTERVAL);
+    }
+  }
+
+  const waited = Date.now() - start;
+  const settled = await settle(page, session.settleSettings);
+  return met
+    ? `Waited ${waited}ms for ${condition}. ${describeSettle(settled)}`
+    : `Gave up after ${waited}ms waiting for ${condition}. ${describeSettle(
+        settled
+      )}`;
+}
+
+// Tab tools - tabs are identified by stable IDs from the session
+export const listTabsSchema = z.object({});
+
+export type ListTabsInput = z.infer<typeof listTabsSchema>;
+
+export async function listTabs(session: BrowserSession): Promise<TabInfo[]> {
+  return session.listTabs();
+}
+
+export const switchTabSchema = z.object({
+  tabId: z.number().describe("The ID of the tab to switch to (from listTabs)"),
+});
+
+export type SwitchTabInput = z.infer<typeof switchTabSchema>;
+
+export async function switchTab(
+  session: BrowserSession,
+  input: SwitchTabInput
+): Promise<string> {
+  const { tabId } = switchTabSchema.parse(input);
+  const page = session.getTab(tabId);
+  if (!page) {
+    const ids = (await session.listTabs()).map((tab) => tab.id);
+    return `No tab with ID ${tabId}. Open tabs: ${ids.join(", ")}`;
+  }
+  await session.setActivePage(page);
+  return `Switched to tab [${tabId}] "${await page.title()}" at ${page.url()}`;
+}
+
+export const openTabSchema = z.object({
+  url: z
+    .string()
+    .url()
+    .optional()
+    .describe("Optional URL to open in the new tab. If not provided, opens a blank tab."),
+});
+
+export type OpenTabInput = z.infer<typeof openTabSchema>;
+
+export async function openTab(
+  session: BrowserSession,
+  input: OpenTabInput = {}
+): Promise<string> {
+  const { url } = openTabSchema.parse(input);
+  const page = await session.openTab();
+  await session.setActivePage(page);
+
+  const message = `Opened new tab [${session.tabId(page)}], now the active tab`;
+  if (!url) {
+    return message;
+  }
+  const result = await navigate(session, { url });
+  return `${message}. ${result.message}`;
+}
+
+export const closeTabSchema = z.object({
+  tabId: z
+    .number()
+    .optional()
+    .describe("The ID of the tab to close. If not provided, closes the active tab."),
+});
+
+export type CloseTabInput = z.infer<typeof closeTabSchema>;
+
+export async function closeTab(
+  session: BrowserSession,
+  input: CloseTabInput = {}
+): Promise<string> {
+  const { tabId = session.tabId(session.page) } = closeTabSchema.parse(input);
+  const page = session.getTab(tabId);
+  if (!page) {
+    const ids = (await session.listTabs()).map((tab) => tab.id);
+    return `No tab with ID ${tabId}. Open tabs: ${ids.join(", ")}`;
+  }
+  if (session.pages.length === 1) {
+    return `Tab [${tabId}] is the only open tab and can't be closed`;
+  }
+
+  await page.close();
+  // Closing the active tab makes the session fall back to another one
+  const active = session.page;
+  return `Closed tab [${tabId}]. Active tab is [${session.tabId(
+    active
+  )}] at ${active.url()}`;
+}
+
+// History tools - move through the active tab's back/forward history
+export const goBackSchema = z.object({});
+
+export type GoBackInput = z.infer<typeof goBackSchema>;
+
+export const goForwardSchema = z.object({});
+
+export type GoForwardInput = z.infer<typeof goForwardSchema>;
+
+export interface HistoryNavigationResult {
+  // False when there was no history entry to move to
+  moved: boolean;
+  message: string;
+}
+
+async function traverseHistory(
+  session: BrowserSession,
+  direction: "back" | "forward"
+): Promise<HistoryNavigationResult> {
+  const { page } = session;
+  const before = session.historyOf(page).index;
+
+  session.expectTraversal(page, direction);
+  try {
+    const options = { waitUntil: "domcontentloaded", timeout: 5000 } as const;
+    if (direction === "back") {
+      await page.goBack(options);
+    } else {
+      await page.goForward(options);
+    }
+  } catch (error) {
+    if (!(error instanceof errors.TimeoutError)) {
+      session.expectTraversal(page, undefined);
+      throw error;
+    }
+  }
+
+  // goBack/goForward resolve to null both for "no history" and for same-document
+  // navigations, and the entry moved to can have the same URL, so the tab's
+  // history position tells them apart
+  const settled = await settle(page, session.settleSettings);
+  session.expectTraversal(page, undefined);
+  const after = page.url();
+  if (session.historyOf(page).index === before) {
+    return {
+      moved: false,
+      message: `No ${
+        direction === "back" ? "previous" : "next"
+      } page in this tab's history. Still at ${after}`,
+    };
+  }
+  return {
+    moved: true,
+    message: `Went ${direction} to ${after}. ${describeSettle(settled)}`,
+  };
+}
+
+export async function goBack(
+  session: BrowserSession
+): Promise<HistoryNavigationResult> {
+  return traverseHistory(session, "back");
+}
+
+export async function goForward(
+  session: BrowserSession
+): Promise<HistoryNavigationResult> {
+  return traverseHistory(session, "forward");
+}
+
+export const getHistorySchema = z.object({
+  tabId: z
+    .number()
+    .optional()
+    .describe("The ID of the tab. If not provided, uses the active tab."),
+});
+
+export type GetHistoryInput = z.infer<typeof getHistorySchema>;
+
+export interface GetHistoryResult {
+  tabId: number;
+  entries: NavigationEntry[];
+}
+
+export async function getHistory(
+  session: BrowserSession,
+  input: GetHistoryInput = {}
+): Promise<GetHistoryResult | null> {
+  const { tabId = session.tabId(session.page) } = getHistorySchema.parse(input);
+  const page = session.getTab(tabId);
+  if (!page) {
+    return null;
+  }
+  return { tabId, entries: session.navigationTimeline(page) };
+}
@@ -0,0 +1,851 @@
+import { createHash } from "node:crypto";
+import type { ElementHandle, Frame, Page } from "playwright";
+
+export interface LabeledElement {
+  // Position in the latest screenshot; reassigned on every detection
+  label: number;
+  // Stays the same across screenshots while the element keeps its role, name,
+  // place in the DOM and identifying attributes
+  fingerprint: string;
+  // Tag-based kind: "link", "button", "input[email]", "textarea", "select", "div", ...
+  type: string;
+  // Visible text, falling back to value, aria-label, title or placeholder
+  text: string;
+  // ARIA role as computed by the browser: "button", "link", "checkbox", "textbox", ...
+  role: string;
+  // Accessible name, what a screen reader would announce
+  name: string;
+  // Absolute link target
+  href?: string;
+  placeholder?: string;
+  // Current value of a form field (passwords are masked)
+  value?: string;
+  // URL of the iframe the element is in; unset for the main frame
+  frame?: string;
+  // Where that iframe is: its index among its parent frame's children, for
+  // each frame from the main frame down. Tells apart iframes with the same URL
+  framePath?: number[];
+  // Tag names from the frame's root down, e.g. "html > body > div:nth-of-type(2) > button";
+  // "::shadow" steps into a shadow root
+  path: string;
+  // Unset when the element is fully in the viewport
+  visibility?: "partial" | "offscreen";
+  // States are only set for elements that support them
+  disabled?: boolean;
+  checked?: boolean | "mixed";
+  expanded?: boolean;
+  selected?: boolean;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Colors and list markers group elements by what the model can do with them
+export type ElementCategory = "link" | "input" | "button" | "other";
+
+const INPUT_ROLES = new Set([
+  "textbox",
+  "searchbox",
+  "combobox",
+  "listbox",
+  "checkbox",
+  "radio",
+  "switch",
+  "slider",
+  "spinbutton",
+]);
+
+export function getElementCategory(
+  element: Pick<LabeledElement, "role" | "type">
+): ElementCategory {
+  // Elements from older traces have no role, so fall back to the tag-based type
+  const role = element.role ?? element.type;
+  if (role === "link") return "link";
+  if (role === "button") return "button";
+  if (
+    INPUT_ROLES.has(role) ||
+    element.type.startsWith("input[") ||
+    element.type === "textarea" ||
+    element.type === "select"
+  ) {
+    return "input";
+  }
+  return "other";
+}
+
+// Marks candidates in the DOM so the accessibility tree can be matched to them
+const CANDIDATE_ATTRIBUTE = "data-agent-candidate";
+
+// Maximum number of detected elements, to bound detection time on huge pages
+const MAX_ELEMENTS = 500;
+
+// A detected element before labeling. `key` ("<frame index>:<index>") is the
+// value of its CANDIDATE_ATTRIBUTE tag; `attributes` are the values of its
+// identifying attributes, which go into the fingerprint.
+type Candidate = Omit<LabeledElement, "label" | "fingerprint"> & {
+  key: string;
+  attributes: (string | null)[];
+};
+
+// Where a frame's content sits in the page viewport
+interface FrameOffset {
+  x: number;
+  y: number;
+  // Visible part of the frame in viewport coordinates
+  clip: { left: number; top: number; right: number; bottom: number };
+}
+
+interface AccessibilityInfo {
+  role?: string;
+  name?: string;
+  disabled?: boolean;
+  checked?: boolean | "mixed";
+  expanded?: boolean;
+  selected?: boolean;
+}
+
+/**
+ * Find rendered interactive elements in one frame, including inside open shadow
+ * roots and outside the viewport, and compute their role, name and state from
+ * the markup. Boxes are relative to the frame's viewport. Each element is tagged with CANDIDATE_ATTRIBUTE so the
+ * browser's accessibility tree can refine these values afterwards.
+ */
+async function findCandidates(
+  frame: Frame,
+  frameIndex: number
+): Promise<Candidate[]> {
+  return frame.evaluate(
+    ({ attribute, frameIndex }) => {
+      const selectors = [
+        "a[href]",
+        "button",
+        "input:not([type='hidden'])",
+        "textarea",
+        "select",
+        "summary",
+        "[contenteditable='']",
+        "[contenteditable='true']",
+        ...[
+          "button",
+          "link",
+          "menuitem",
+          "menuitemcheckbox",
+          "menuitemradio",
+          "tab",
+          "checkbox",
+          "radio",
+          "switch",
+          "combobox",
+          "textbox",
+          "searchbox",
+          "slider",
+          "spinbutton",
+          "option",
+          "treeitem",
+        ].map((role) => `[role='${role}']`),
+        "[onclick]",
+        "[tabindex]",
+      ];
+
+      const inputRoles: Record<string, string> = {
+        button: "button",
+        submit: "button",
+        reset: "button",
+        image: "button",
+        checkbox: "checkbox",
+        radio: "radio",
+        range: "slider",
+        number: "spinbutton",
+        search: "searchbox",
+      };
+
+      const clean = (text: string | null | undefined, max = 80) => {
+        const collapsed = (text ?? "").replace(/\s+/g, " ").trim();
+        return collapsed.length > max
+          ? `${collapsed.substring(0, max)}...`
+          : collapsed;
+      };
+
+      const implicitRole = (el: HTMLElement): string => {
+        const tag = el.tagName.toLowerCase();
+        if (tag === "a") return "link";
+        if (tag === "button" || tag === "summary") return "button";
+        if (tag === "textarea") return "textbox";
+        if (tag === "option") return "option";
+        if (tag === "select") {
+          const select = el as HTMLSelectElement;
+          return select.multiple || select.size > 1 ? "listbox" : "combobox";
+        }
+        if (tag === "input") {
+          return inputRoles[(el as HTMLInputElement).type] ?? "textbox";
+        }
+        if (el.isContentEditable) return "textbox";
+        return "generic";
+      };
+
+      const accessibleName = (el: HTMLElement): string => {
+        const labelledBy = el.getAttribute("aria-labelledby");
+        if (labelledBy) {
+          const text = labelledBy
+            .split(/\s+/)
+            .map(
+              (id) =>
+                (el.getRootNode() as Document | ShadowRoot).getElementById(id)
+                  ?.textContent ?? ""
+            )
+            .join(" ");
+          if (clean(text)) return clean(text);
+        }
+        const labels = (el as HTMLInputElement).labels;
+        const candidates = [
+          el.getAttribute("aria-label"),
+          labels?.length
+            ? Array.from(labels)
+                .map((label) => label.innerText)
+                .join(" ")
+            : null,
+          el.getAttribute("alt"),
+          el.querySelector("img[alt]")?.getAttribute("alt"),
+          // An editable element's text is its value, which changes as it is typed into
+          el.isContentEditable ? null : el.innerText,
+          el.getAttribute("title"),
+          el.getAttribute("placeholder"),
+        ];
+        if (el instanceof HTMLInputElement && inputRoles[el.type] === "button") {
+          candidates.unshift(el.value);
+        }
+        return clean(candidates.find((candidate) => clean(candidate)));
+      };
+
+      const ariaBoolean = (el: HTMLElement, name: string) => {
+        const value = el.getAttribute(name);
+        return value === null ? undefined : value === "true";
+      };
+
+      const fieldValue = (el: HTMLElement, role: string): string | undefined => {
+        if (el instanceof HTMLInputElement) {
+          if (["button", "checkbox", "radio"].includes(role)) return undefined;
+          if (el.type === "password") return el.value ? "••••••" : "";
+          return clean(el.value);
+        }
+        if (el instanceof HTMLTextAreaElement) return clean(el.value);
+        if (el instanceof HTMLSelectElement) {
+          return clean(
+            Array.from(el.selectedOptions)
+              .map((option) => option.text)
+              .join(", ")
+          );
+        }
+        if (el.isContentEditable) return clean(el.innerText);
+        const ariaValue =
+          el.getAttribute("aria-valuetext") ?? el.getAttribute("aria-valuenow");
+        return ariaValue ?? undefined;
+      };
+
+      // Tag names from the root down, with ::shadow marking shadow boundaries
+      const domPath = (el: Element): string => {
+        const segments: string[] = [];
+        let node: Element | null = el;
+        while (node) {
+          const current: Element = node;
+          const tag = current.tagName.toLowerCase();
+          const sameTag = Array.from(current.parentNode?.children ?? []).filter(
+            (sibling) => sibling.tagName === current.tagName
+          );
+          segments.unshift(
+            sameTag.length > 1
+              ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})`
+              : tag
+          );
+          const root = current.getRootNode();
+          if (current.parentElement) {
+            node = current.parentElement;
+          } else if (root instanceof ShadowRoot) {
+            segments.unshift("::shadow");
+            node = root.host;
+          } else {
+            node = null;
+          }
+        }
+        return segments.join(" > ");
+      };
+
+      const identifyingAttributes = [
+        "id",
+        "name",
+        "type",
+        "href",
+        "aria-label",
+        "placeholder",
+        "data-testid",
+      ];
+
+      // querySelectorAll that also searches open shadow roots
+      const queryAll = (root: Document | ShadowRoot, selector: string) => {
+        const found = Array.from(
+          root.querySelectorAll<HTMLElement>(selector)
+        );
+        root.querySelectorAll("*").forEach((el) => {
+          if (el.shadowRoot) found.push(...queryAll(el.shadowRoot, selector));
+        });
+        return found;
+      };
+
+      // Clear tags left behind by an earlier detection that didn't finish
+      queryAll(document, `[${attribute}]`).forEach((el) =>
+        el.removeAttribute(attribute)
+      );
+
+      const results: Omit<Candidate, "key">[] = [];
+      const elements: HTMLElement[] = [];
+
+      queryAll(document, selectors.join(",")).forEach((el) => {
+        const rect = el.getBoundingClientRect();
+        const tagName = el.tagName.toLowerCase();
+        const inputType = el instanceof HTMLInputElement ? el.type : undefined;
+
+        // Checkboxes and radios are often drawn small
+        const minSize =
+          inputType === "checkbox" || inputType === "radio" ? 6 : 10;
+
+        // Skip elements that are not rendered or too small; whether they are
+        // in the viewport is decided once the frame's position is known
+        if (rect.width < minSize || rect.height < minSize) {
+          return;
+        }
+
+        const style = window.getComputedStyle(el);
+        if (
+          style.display === "none" ||
+          style.visibility === "hidden" ||
+          style.opacity === "0"
+        ) {
+          return;
+        }
+
+        let type = tagName;
+        if (inputType) {
+          type = `input[${inputType}]`;
+        } else if (tagName === "a") {
+          type = "link";
+        }
+
+        const role =
+          el.getAttribute("role")?.split(/\s+/)[0] || implicitRole(el);
+
+        let checked: boolean | "mixed" | undefined;
+        if (
+          el instanceof HTMLInputElement &&
+          (role === "checkbox" || role === "radio")
+        ) {
+          checked = el.indeterminate ? "mixed" : el.checked;
+        } else if (el.hasAttribute("aria-checked")) {
+          const ariaChecked = el.getAttribute("aria-checked");
+          checked = ariaChecked === "mixed" ? "mixed" : ariaChecked === "true";
+        }
+
+        const details = tagName === "summary" ? el.parentElement : null;
+        const expanded =
+          details instanceof HTMLDetailsElement
+            ? details.open
+            : ariaBoolean(el, "aria-expanded");
+
+        const selected =
+          el instanceof HTMLOptionElement
+            ? el.selected
+            : ariaBoolean(el, "aria-selected");
+
+        const disabled =
+          el.matches(":disabled") || el.getAttribute("aria-disabled") === "true";
+
+        const text = clean(
+          el.innerText ||
+            (el as HTMLInputElement).value ||
+            el.getAttribute("aria-label") ||
+            el.getAttribute("title") ||
+            el.getAttribute("placeholder"),
+          50
+        );
+
+        elements.push(el);
+        results.push({
+          type,
+          text,
+          role,
+          name: accessibleName(el),
+          href:
+            el instanceof HTMLAnchorElement && el.href ? el.href : undefined,
+          placeholder: el.getAttribute("placeholder") ?? undefined,
+          value: fieldValue(el, role),
+          disabled: disabled || undefined,
+          checked,
+          expanded,
+          selected,
+          x: Math.round(rect.left),
+          y: Math.round(rect.top),
+          width: Math.round(rect.width),
+          height: Math.round(rect.height),
+          path: domPath(el),
+          attributes: identifyingAttributes.map((name) => el.getAttribute(name)),
+        });
+      });
+
+      return results.map((detected, index) => {
+        const key = `${frameIndex}:${index}`;
+        elements[index]!.setAttribute(attribute, key);
+        return { ...detected, key };
+      });
+    },
+    { attribute: CANDIDATE_ATTRIBUTE, frameIndex }
+  );
+}
+
+// Remove the candidate tags from a frame, including its shadow roots
+async function clearCandidateTags(frame: Frame): Promise<void> {
+  await frame
+    .evaluate((attribute) => {
+      const clear = (root: Document | ShadowRoot) => {
+        root
+          .querySelectorAll(`[${attribute}]`)
+          .forEach((el) => el.removeAttribute(attribute));
+        root.querySelectorAll("*").forEach((el) => {
+          if (el.shadowRoot) clear(el.shadowRoot);
+        });
+      };
+      clear(document);
+    }, CANDIDATE_ATTRIBUTE)
+    .catch(() => {});
+}
+
+/**
+ * Work out where each frame's content is drawn in the viewport, so boxes found
+ * inside it can be translated. Frames scrolled out of view get an empty clip;
+ * frames that aren't rendered at all map to null.
+ */
+async function getFrameOffsets(
+  page: Page
+): Promise<Map<Frame, FrameOffset | null>> {
+  const offsets = new Map<Frame, FrameOffset | null>();
+  const viewport =
+    page.viewportSize() ??
+    (await page.evaluate(() => ({
+      width: window.innerWidth,
+      height: window.innerHeight,
+    })));
+
+  const offsetOf = async (frame: Frame): Promise<FrameOffset | null> => {
+    const known = offsets.get(frame);
+    if (known !== undefined) return known;
+
+    let offset: FrameOffset | null = null;
+    const parent = frame.parentFrame();
+    if (!parent) {
+      offset = {
+        x: 0,
+        y: 0,
+        clip: {
+          left: 0,
+          top: 0,
+          right: viewport.width,
+          bottom: viewport.height,
+        },
+      };
+    } else {
+      const parentOffset = await offsetOf(parent);
+      const owner = await frame.frameElement().catch(() => null);
+      // boundingBox is already relative to the main frame's viewport
+      const box = parentOffset && owner ? await owner.boundingBox() : null;
+      if (parentOffset && owner && box) {
+        // The frame's content starts inside the iframe's border and padding
+        const inset = await owner.evaluate((node) => {
+          const el = node as HTMLIFrameElement;
+          const style = window.getComputedStyle(el);
+          return {
+            left: el.clientLeft + parseFloat(style.paddingLeft),
+            top: el.clientTop + parseFloat(style.paddingTop),
+          };
+        });
+        const clip = {
+          left: Math.max(parentOffset.clip.left, box.x),
+          top: Math.max(parentOffset.clip.top, box.y),
+          right: Math.min(parentOffset.clip.right, box.x + box.width),
+          bottom: Math.min(parentOffset.clip.bottom, box.y + box.height),
+        };
+        offset = { x: box.x + inset.left, y: box.y + inset.top, clip };
+      }
+    }
+    offsets.set(frame, offset);
+    return offset;
+  };
+
+  for (const frame of page.frames()) {
+    await offsetOf(frame);
+  }
+  return offsets;
+}
+
+function readProperty(
+  properties: { name: string; value: { value?: unknown } }[] | undefined,
+  name: string
+): unknown {
+  return properties?.find((property) => property.name === name)?.value.value;
+}
+
+// The parts of a CDP DOM.Node used to find tagged candidates
+interface DomNode {
+  backendNodeId: number;
+  attributes?: string[];
+  children?: DomNode[];
+  shadowRoots?: DomNode[];
+  contentDocument?: DomNode;
+}
+
+// Collect backend node IDs of tagged candidates in a DOM tree, keyed by tag value
+function findTaggedNodes(node: DomNode, found: Map<string, number>): void {
+  // Attributes come as a flat [name, value, name, value, ...] list
+  const attributes = node.attributes ?? [];
+  for (let i = 0; i < attributes.length; i += 2) {
+    if (attributes[i] === CANDIDATE_ATTRIBUTE) {
+      found.set(attributes[i + 1]!, node.backendNodeId);
+    }
+  }
+  for (const child of [
+    ...(node.children ?? []),
+    ...(node.shadowRoots ?? []),
+    ...(node.contentDocument ? [node.contentDocument] : []),
+  ]) {
+    findTaggedNodes(child, found);
+  }
+}
+
+// The parts of a CDP Page.FrameTree used to list a session's frames
+interface FrameTreeNode {
+  frame: { id: string };
+  childFrames?: FrameTreeNode[];
+}
+
+function frameIdsOf(tree: FrameTreeNode, ids: string[] = []): string[] {
+  ids.push(tree.frame.id);
+  for (const child of tree.childFrames ?? []) frameIdsOf(child, ids);
+  return ids;
+}
+
+// The parts of a CDP Accessibility.AXNode read for a candidate
+interface AxNode {
+  ignored: boolean;
+  role?: { value?: unknown };
+  name?: { value?: unknown };
+  properties?: { name: string; value: { value?: unknown } }[];
+}
+
+function accessibilityInfoOf(axNode: AxNode): AccessibilityInfo {
+  const checked = readProperty(axNode.properties, "checked");
+  return {
+    role: axNode.role?.value as string | undefined,
+    name: axNode.name?.value as string | undefined,
+    disabled: readProperty(axNode.properties, "disabled") as boolean | undefined,
+    checked:
+      checked === undefined
+        ? undefined
+        : checked === "mixed"
+        ? "mixed"
+        : checked === "true" || checked === true,
+    expanded: readProperty(axNode.properties, "expanded") as boolean | undefined,
+    selected: readProperty(axNode.properties, "selected") as boolean | undefined,
+  };
+}
+
+/**
+ * Read the accessibility tree for the `wanted` candidates through the Chrome
+ * DevTools Protocol, one full tree per frame joined to the candidates on their
+ * backend node IDs. The page's session covers the main frame, same-process
+ * iframes and shadow roots; out-of-process (cross-origin) iframes have their
+ * own session. Returns an empty map on browsers without CDP.
+ */
+async function readAccessibilityTree(
+  page: Page,
+  wanted: Set<string>
+): Promise<Map<string, AccessibilityInfo>> {
+  const info = new Map<string, AccessibilityInfo>();
+  const missing = () => [...wanted].some((key) => !info.has(key));
+
+  for (const frame of page.frames()) {
+    if (!missing()) break;
+
+    let cdp;
+    try {
+      cdp = await page
+        .context()
+        .newCDPSession(frame === page.mainFrame() ? page : frame);
+    } catch {
+      // Not Chromium, or a frame that shares its parent's session
+      continue;
+    }
+
+    try {
+      const { root } = await cdp.send("DOM.getDocument", {
+        depth: -1,
+        pierce: true,
+      });
+      const tagged = new Map<string, number>();
+      findTaggedNodes(root, tagged);
+
+      // Same-process iframes have their own tree in the same session
+      const { frameTree } = await cdp.send("Page.getFrameTree");
+      const axNodes = new Map<number, AxNode>();
+      for (const frameId of frameIdsOf(frameTree)) {
+        const { nodes } = await cdp
+          .send("Accessibility.getFullAXTree", { frameId })
+          .catch(() => ({ nodes: [] }));
+        for (const axNode of nodes) {
+          if (axNode.backendDOMNodeId !== undefined) {
+            axNodes.set(axNode.backendDOMNodeId, axNode);
+          }
+        }
+      }
+
+      for (const [key, backendNodeId] of tagged) {
+        if (!wanted.has(key) || info.has(key)) continue;
+        const axNode = axNodes.get(backendNodeId);
+        if (!axNode || axNode.ignored) continue;
+        try {
+          info.set(key, accessibilityInfoOf(axNode));
+        } catch {
+          // A malformed node keeps its DOM-derived values
+        }
+      }
+    } catch {
+      // The DOM-derived values are used for anything not read
+    } finally {
+      await cdp.detach().catch(() => {});
+    }
+  }
+  return info;
+}
+
+// Roles the accessibility tree reports for elements without real semantics
+const GENERIC_ROLES = new Set(["generic", "none", "presentation"]);
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max)}...` : text;
+}
+
+/**
+ * Hash what identifies an element independently of where it is drawn. Uses the
+ * DOM-derived role and name, which don't depend on the accessibility tree being
+ * readable, so the same element gets the same fingerprint on every detection.
+ */
+function fingerprintOf(frame: Frame, candidate: Candidate): string {
+  // The frame's place in the frame tree tells identical iframes apart
+  const frameKey = frame.parentFrame()
+    ? [frame.name() || frame.url(), ...framePathOf(frame)]
+    : "";
+  return createHash("sha1")
+    .update(
+      JSON.stringify([
+        frameKey,
+        candidate.role,
+        candidate.name,
+        candidate.path,
+        candidate.attributes,
+      ])
+    )
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Whether a box lies inside, across or outside a frame's visible area
+function visibilityOf(
+  box: { x: number; y: number; width: number; height: number },
+  clip: FrameOffset["clip"]
+): LabeledElement["visibility"] {
+  const right = box.x + box.width;
+  const bottom = box.y + box.height;
+  if (
+    box.x >= clip.left &&
+    box.y >= clip.top &&
+    right <= clip.right &&
+    bottom <= clip.bottom
+  ) {
+    return undefined;
+  }
+  const overlaps =
+    box.x < clip.right &&
+    right > clip.left &&
+    box.y < clip.bottom &&
+    bottom > clip.top;
+  return overlaps ? "partial" : "offscreen";
+}
+
+/**
+ * Detect the interactive elements of the page and return them with labels,
+ * roles, accessible names and states. Candidates are found in the DOM of every
+ * frame (piercing open shadow roots) and their boxes translated into viewport
+ * coordinates, so labels and clickByLabel work the same inside iframes. Role,
+ * name and state are then taken from the browser's accessibility tree where it
+ * has them, since that is what the page actually exposes.
+ *
+ * Elements in the viewport come first, numbered by position, followed by
+ * partly visible and then off-screen ones, so the first labels are the ones a
+ * screenshot shows. Fingerprints identify the same element across detections.
+ */
+export async function detectClickableElements(
+  page: Page
+): Promise<LabeledElement[]> {
+  const offsets = await getFrameOffsets(page);
+  const frames = page.frames();
+  const candidates: (Candidate & { fingerprint: string })[] = [];
+
+  for (const [frameIndex, frame] of frames.entries()) {
+    const offset = offsets.get(frame);
+    if (!offset) continue;
+    // Frames can detach or navigate mid-detection; skip them
+    const found = await findCandidates(frame, frameIndex).catch(() => []);
+
+    for (const candidate of found) {
+      const box = {
+        x: Math.round(candidate.x + offset.x),
+        y: Math.round(candidate.y + offset.y),
+        width: candidate.width,
+        height: candidate.height,
+      };
+      candidates.push({
+        ...candidate,
+        ...box,
+        frame: frame === page.mainFrame() ? undefined : frame.url(),
+        framePath: frame === page.mainFrame() ? undefined : framePathOf(frame),
+        visibility: visibilityOf(box, offset.clip),
+        fingerprint: fingerprintOf(frame, candidate),
+      });
+    }
+  }
+
+  // Visible, then partly visible, then off-screen elements, each sorted by
+  // position (top to bottom, left to right)
+  const group = (candidate: Candidate) =>
+    candidate.visibility === undefined
+      ? 0
+      : candidate.visibility === "partial"
+      ? 1
+      : 2;
+  candidates.sort((a, b) => {
+    if (group(a) !== group(b)) {
+      return group(a) - group(b);
+    }
+    if (Math.abs(a.y - b.y) < 20) {
+      return a.x - b.x;
+    }
+    return a.y - b.y;
+  });
+  const kept = candidates.slice(0, MAX_ELEMENTS);
+
+  const accessibility = await readAccessibilityTree(
+    page,
+    new Set(kept.map((candidate) => candidate.key))
+  );
+  await Promise.all(frames.map(clearCandidateTags));
+
+  return kept.map(({ key, attributes, ...candidate }, index) => {
+    const ax = accessibility.get(key);
+    const element: LabeledElement = { ...candidate, label: index + 1 };
+    if (!ax) return element;
+
+    // Chromium-internal roles (StaticText, DisclosureTriangle, ...) are CamelCase
+    if (ax.role && /^[a-z]+$/.test(ax.role) && !GENERIC_ROLES.has(ax.role)) {
+      element.role = ax.role;
+    }
+    if (ax.name?.trim()) element.name = truncate(ax.name.trim(), 80);
+    if (ax.disabled !== undefined) element.disabled = ax.disabled || undefined;
+    element.checked = ax.checked ?? element.checked;
+    element.expanded = ax.expanded ?? element.expanded;
+    element.selected = ax.selected ?? element.selected;
+    return element;
+  });
+}
+
+/** A frame's index among its parent's children, for each frame from the main frame down. */
+function framePathOf(frame: Frame): number[] {
+  const path: number[] = [];
+  for (let child = frame; ; ) {
+    const parent = child.parentFrame();
+    if (!parent) return path;
+    path.unshift(parent.childFrames().indexOf(child));
+    child = parent;
+  }
+}
+
+// The frame a detected element is in. Elements from older traces only have
+// the frame's URL, which finds the first frame with it
+function frameOf(page: Page, element: LabeledElement): Frame | undefined {
+  if (element.framePath) {
+    let frame: Frame | undefined = page.mainFrame();
+    for (const index of element.framePath) {
+      frame = frame?.childFrames()[index];
+    }
+    return frame && frame.url() === element.frame ? frame : undefined;
+  }
+  return element.frame
+    ? page.frames().find((candidate) => candidate.url() === element.frame)
+    : page.mainFrame();
+}
+
+/**
+ * Get a handle to a detected element by following its path in its frame, or
+ * null if nothing is at that path any more. The caller disposes the handle.
+ */
+export async function resolveElement(
+  page: Page,
+  element: LabeledElement
+): Promise<ElementHandle<Element> | null> {
+  const frame = frameOf(page, element);
+  if (!frame) return null;
+
+  // Follow the element's path from the frame's document, stepping into shadow roots
+  const handle = await frame
+    .evaluateHandle((path) => {
+      let parent: Document | ShadowRoot | Element = document;
+      for (const segment of path.split(" > ")) {
+        if (segment === "::shadow") {
+          const shadowRoot: ShadowRoot | null = (parent as Element).shadowRoot;
+          if (!shadowRoot) return null;
+          parent = shadowRoot;
+          continue;
+        }
+        const [, tag, nth] =
+          segment.match(/^(.+?)(?::nth-of-type\((\d+)\))?$/) ?? [];
+        const sameTag: Element[] = Array.from(parent.children).filter(
+          (child) => child.tagName.toLowerCase() === tag
+        );
+        const next: Element | undefined = sameTag[nth ? Number(nth) - 1 : 0];
+        if (!next) return null;
+        parent = next;
+      }
+      return parent instanceof Element ? parent : null;
+    }, element.path)
+    .catch(() => null);
+
+  const target = handle?.asElement() ?? null;
+  if (!target) await handle?.dispose();
+  return target;
+}
+
+/**
+ * Scroll a detected element into view, including any scrollable containers and
+ * frames around it. Returns false if the element can no longer be found.
+ */
+export async function scrollElementIntoView(
+  page: Page,
+  element: LabeledElement
+): Promise<boolean> {
+  const target = await resolveElement(page, element);
+  if (!target) return false;
+  try {
+    await target.scrollIntoViewIfNeeded({ timeout: 2000 });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    await target.dispose();
+  }
+}
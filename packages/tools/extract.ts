@@ -0,0 +1,614 @@
+import type { Page } from "playwright";
+import { z, ZodType, type ZodTypeAny } from "zod";
+
+/**
+ * Structured extraction: the page's tables, lists and repeated cards are read
+ * as sets of records with named fields, the set that best fits the caller's
+ * schema is picked, its fields are mapped onto the schema's properties and
+ * every record is validated against the schema.
+ */
+
+/** The subset of JSON Schema that extraction schemas can use. */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  format?: string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface TableData {
+  // Position among the tables read, starting at 1
+  index: number;
+  caption: string;
+  headers: string[];
+  rows: string[][];
+  // The first link in each row, or "" if it has none
+  links: string[];
+}
+
+/** Records with named fields read from one table, list or group of cards. */
+export interface RecordSet {
+  // e.g. "table 2 (Prices)" or "24 × li.product"
+  source: string;
+  fields: string[];
+  records: Record<string, string>[];
+}
+
+export interface InvalidRecord {
+  // Position in the record set, starting at 1
+  index: number;
+  record: Record<string, unknown>;
+  issues: string[];
+}
+
+export interface ExtractResult {
+  source: string;
+  // Records that passed validation, in page order
+  records: unknown[];
+  invalid: InvalidRecord[];
+  // Records read from the set, before the limit
+  total: number;
+  // Schema properties no field on the page matched
+  unmatched: string[];
+  // Fields the chosen set has, so the schema can be adjusted to them
+  available: string[];
+  // Other record sets on the page, for a more specific selector
+  others: string[];
+}
+
+// Fewest repeated siblings that count as a list of records
+const MIN_REPEATS = 3;
+
+// Most records read from one list
+export const MAX_RECORDS = 200;
+
+/**
+ * Read the data tables in the page (or in the element matching `selector`).
+ * Layout tables, with one column or with tables nested inside, are skipped.
+ * Returns undefined if the selector matches nothing.
+ */
+export async function readTables(
+  page: Page,
+  selector?: string
+): Promise<TableData[] | undefined> {
+  return page.evaluate((selector) => {
+    const scope = selector ? document.querySelector(selector) : document.body;
+    if (!scope) return undefined;
+    const text = (el: Element): string =>
+      ((el as HTMLElement).innerText ?? el.textContent ?? "")
+        .replace(/\s+/g, " ")
+        .trim();
+    // A cell spanning columns fills all of them, so columns stay aligned
+    const cells = (row: HTMLTableRowElement): string[] =>
+      Array.from(row.cells).flatMap((cell) => {
+        const value = text(cell);
+        return Array.from({ length: cell.colSpan || 1 }, (_, i) =>
+          i === 0 || cell.tagName === "TH" ? value : ""
+        );
+      });
+
+    // A selector inside a table (a cell, a row) means that table
+    const own = scope.closest("table");
+    const tables = own ? [own] : Array.from(scope.querySelectorAll("table"));
+    const result: TableData[] = [];
+    for (const table of tables) {
+      const style = getComputedStyle(table);
+      if (style.display === "none" || style.visibility === "hidden") continue;
+      if (table.querySelector("table")) continue;
+      const rows = Array.from(table.rows).filter(
+        (row) => row.cells.length > 0 && text(row) !== ""
+      );
+      if (rows.length === 0) continue;
+
+      // Header: the last row of <thead>, or a first row of only <th> cells
+      const headRows = table.tHead ? Array.from(table.tHead.rows) : [];
+      const headerRow =
+        headRows[headRows.length - 1] ??
+        (Array.from(rows[0]!.cells).every((cell) => cell.tagName === "TH")
+          ? rows[0]
+          : undefined);
+      const body = rows.filter(
+        (row) => row !== headerRow && !headRows.includes(row)
+      );
+      const width = Math.max(
+        headerRow ? cells(headerRow).length : 0,
+        ...body.map((row) => cells(row).length)
+      );
+      if (width < 2 || body.length === 0) continue;
+
+      // Empty and repeated headers get made unique, e.g. "Column 3", "Price 2"
+      const seen = new Map<string, number>();
+      const headers = Array.from({ length: width }, (_, i) => {
+        const name = (headerRow ? cells(headerRow)[i] : "") || `Column ${i + 1}`;
+        const count = (seen.get(name) ?? 0) + 1;
+        seen.set(name, count);
+        return count > 1 ? `${name} ${count}` : name;
+      });
+      result.push({
+        index: result.length + 1,
+        caption: table.caption ? text(table.caption) : "",
+        headers,
+        rows: body.map((row) => {
+          const values = cells(row);
+          return Array.from({ length: width }, (_, i) => values[i] ?? "");
+        }),
+        links: body.map(
+          (row) => row.querySelector<HTMLAnchorElement>("a[href]")?.href ?? ""
+        ),
+      });
+    }
+    return result;
+  }, selector);
+}
+
+/** A table as records keyed by its headers, plus "url" for rows with a link. */
+export function tableRecords(table: TableData): Record<string, string>[] {
+  return table.rows.map((row, i) => {
+    const record = Object.fromEntries(
+      table.headers.map((header, column) => [header, row[column] ?? ""])
+    );
+    const link = table.links[i];
+    if (link && !("url" in record)) record.url = link;
+    return record;
+  });
+}
+
+/** How a table is referred to, e.g. "table 2 (Opening hours)". */
+export function describeTable(table: TableData): string {
+  return `table ${table.index}${table.caption ? ` (${table.caption})` : ""}`;
+}
+
+/**
+ * Read the tables, lists and groups of repeated cards in the page (or in the
+ * element matching `selector`) as record sets. Card fields are named after
+ * the elements holding them: itemprop, class names, "label: value" text, plus
+ * title, url, image, price and text. Returns undefined if the selector
+ * matches nothing.
+ */
+export async function findRecordSets(
+  page: Page,
+  selector?: string
+): Promise<RecordSet[] | undefined> {
+  const tables = await readTables(page, selector);
+  if (!tables) return undefined;
+  const lists = await page.evaluate(
+    ({ selector, minRepeats, maxRecords }) => {
+      const scope = selector ? document.querySelector(selector) : document.body;
+      if (!scope) return [];
+      const SKIPPED = new Set([
+        "TABLE",
+        "THEAD",
+        "TBODY",
+        "TFOOT",
+        "TR",
+        "SELECT",
+        "DATALIST",
+        "SVG",
+        "HEAD",
+        "SCRIPT",
+        "STYLE",
+      ]);
+      const PRICE =
+        /(?:[$€£¥₹]\s?\d[\d.,]*|\d[\d.,]*\s?(?:[$€£¥₹]|USD|EUR|GBP|kr|zł))/;
+      const clean = (value: string | null | undefined): string =>
+        (value ?? "").replace(/\s+/g, " ").trim();
+      const text = (el: Element): string =>
+        clean((el as HTMLElement).innerText ?? el.textContent);
+      const isHidden = (el: Element): boolean => {
+        const style = getComputedStyle(el);
+        return style.display === "none" || style.visibility === "hidden";
+      };
+      // Items of a list share their tag and first class name
+      const signature = (el: Element): string =>
+        `${el.tagName.toLowerCase()}${el.classList[0] ? `.${el.classList[0]}` : ""}`;
+
+      const readItem = (item: Element): Record<string, string> => {
+        const fields: Record<string, string> = {};
+        const add = (key: string, value: string) => {
+          const name = clean(key);
+          if (name && value && !(name in fields)) fields[name] = value.slice(0, 500);
+        };
+        const heading = item.querySelector("h1, h2, h3, h4, h5, h6, [role=heading]");
+        const link = item.matches("a[href]")
+          ? (item as HTMLAnchorElement)
+          : item.querySelector<HTMLAnchorElement>("a[href]");
+        if (heading) add("title", text(heading));
+        if (link) {
+          add("title", text(link));
+          add("url", link.href);
+        }
+        const image = item.querySelector("img");
+        if (image) {
+          add("image", image.currentSrc || image.src);
+          add("image alt", clean(image.alt));
+        }
+        for (const el of Array.from(item.querySelectorAll("*"))) {
+          if (SKIPPED.has(el.tagName.toUpperCase()) || isHidden(el)) continue;
+          const value =
+            el.getAttribute("content") ??
+            el.getAttribute("datetime") ??
+            (el.children.length <= 3 ? text(el) : "");
+          if (!value) continue;
+          const itemprop = el.getAttribute("itemprop");
+          if (itemprop) add(itemprop, value);
+          const testId = el.getAttribute("data-testid");
+          if (testId) add(testId, value);
+          if (el.classList.length > 0) add(Array.from(el.classList).join(" "), value);
+          // "Label: value" pairs, and <dt>/<dd> pairs
+          const pair = value.match(/^([^:]{2,30}):\s*(.+)$/);
+          if (pair && el.children.length === 0) add(pair[1]!, pair[2]!);
+          if (el.tagName === "DT" && el.nextElementSibling?.tagName === "DD") {
+            add(text(el), text(el.nextElementSibling));
+          }
+        }
+        const price = text(item).match(PRICE);
+        if (price) add("price", price[0]);
+        add("text", text(item));
+        return fields;
+      };
+
+      const sets: Array<{ source: string; records: Record<string, string>[] }> = [];
+      const parents = [scope, ...Array.from(scope.querySelectorAll("*"))];
+      for (const parent of parents) {
+        if (parent.children.length < minRepeats) continue;
+        if (SKIPPED.has(parent.tagName.toUpperCase()) || parent.closest("table")) {
+          continue;
+        }
+        const groups = new Map<string, Element[]>();
+        for (const child of Array.from(parent.children)) {
+          if (isHidden(child) || text(child) === "") continue;
+          const key = signature(child);
+          groups.set(key, [...(groups.get(key) ?? []), child]);
+        }
+        for (const [key, items] of groups) {
+          if (items.length < minRepeats) continue;
+          const records = items.slice(0, maxRecords).map(readItem);
+          // Items with nothing but their text are lines of prose, not records
+          if (records.every((record) => Object.keys(record).length <= 1)) continue;
+          sets.push({ source: `${items.length} × ${key}`, records });
+        }
+      }
+      return sets;
+    },
+    { selector, minRepeats: MIN_REPEATS, maxRecords: MAX_RECORDS }
+  );
+
+  return [
+    ...tables.map((table) => {
+      const records = tableRecords(table);
+      return {
+        source: describeTable(table),
+        fields: fieldNames(records),
+        records,
+      };
+    }),
+    ...lists.map((set) => ({ ...set, fields: fieldNames(set.records) })),
+  ];
+}
+
+// Every field name used in a set of records, in first-seen order
+function fieldNames(records: Record<string, string>[]): string[] {
+  return Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+}
+
+/**
+ * Convert a JSON Schema to the zod schema that validates the same values.
+ * Throws for types it doesn't know.
+ */
+export function jsonSchemaToZod(schema: JsonSchema): ZodTypeAny {
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type
+      ? [schema.type]
+      : [];
+  const type =
+    types.find((name) => name !== "null") ??
+    (schema.properties ? "object" : schema.items ? "array" : undefined);
+
+  let result: ZodTypeAny;
+  if (schema.enum) {
+    const values = schema.enum;
+    result = values.every((value) => typeof value === "string")
+      ? z.enum(values as [string, ...string[]])
+      : z.custom((value) => values.includes(value), {
+          message: `Expected one of ${values.map((value) => JSON.stringify(value)).join(", ")}`,
+        });
+  } else if (type === "string") {
+    let string = z.string();
+    if (schema.format === "email") string = string.email();
+    if (schema.format === "uri" || schema.format === "url") string = string.url();
+    if (schema.pattern) string = string.regex(new RegExp(schema.pattern));
+    if (schema.minLength !== undefined) string = string.min(schema.minLength);
+    if (schema.maxLength !== undefined) string = string.max(schema.maxLength);
+    result = string;
+  } else if (type === "number" || type === "integer") {
+    let number = type === "integer" ? z.number().int() : z.number();
+    if (schema.minimum !== undefined) number = number.min(schema.minimum);
+    if (schema.maximum !== undefined) number = number.max(schema.maximum);
+    result = number;
+  } else if (type === "boolean") {
+    result = z.boolean();
+  } else if (type === "array") {
+    let array = z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown());
+    if (schema.minItems !== undefined) array = array.min(schema.minItems);
+    if (schema.maxItems !== undefined) array = array.max(schema.maxItems);
+    result = array;
+  } else if (type === "object") {
+    const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+    result = z.object(
+      Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, property]) => {
+          const value = jsonSchemaToZod(property);
+          return [name, required.has(name) ? value : value.optional()];
+        })
+      )
+    );
+  } else if (type === undefined) {
+    result = z.unknown();
+  } else {
+    throw new Error(`Unsupported JSON Schema type "${type}"`);
+  }
+
+  if (types.includes("null")) result = result.nullable();
+  return schema.description ? result.describe(schema.description) : result;
+}
+
+type FieldType = "string" | "number" | "boolean" | "array" | "other";
+
+interface PropertySpec {
+  name: string;
+  type: FieldType;
+  description?: string;
+}
+
+// The schema under optional, nullable, default and refinement wrappers
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodNullable ||
+    schema instanceof z.ZodDefault
+  ) {
+    return unwrap(schema._def.innerType);
+  }
+  if (schema instanceof z.ZodEffects) return unwrap(schema._def.schema);
+  return schema;
+}
+
+function fieldType(schema: ZodTypeAny): FieldType {
+  const inner = unwrap(schema);
+  if (inner instanceof z.ZodNumber) return "number";
+  if (inner instanceof z.ZodBoolean) return "boolean";
+  if (inner instanceof z.ZodArray) return "array";
+  if (inner instanceof z.ZodString || inner instanceof z.ZodEnum) return "string";
+  return "other";
+}
+
+/**
+ * The zod schema of one record, from a JSON Schema or zod schema of either
+ * a record or an array of records.
+ */
+export function recordSchemaOf(
+  schema: JsonSchema | ZodTypeAny
+): z.ZodObject<z.ZodRawShape> {
+  const converted = schema instanceof ZodType ? schema : jsonSchemaToZod(schema);
+  const inner = unwrap(converted);
+  const record = inner instanceof z.ZodArray ? unwrap(inner.element) : inner;
+  if (!(record instanceof z.ZodObject)) {
+    throw new Error(
+      "The schema must describe a record (an object with properties) or an array of records"
+    );
+  }
+  if (Object.keys(record.shape).length === 0) {
+    throw new Error("The schema has no properties to extract");
+  }
+  return record;
+}
+
+function propertiesOf(schema: z.ZodObject<z.ZodRawShape>): PropertySpec[] {
+  return Object.entries(schema.shape).map(([name, property]) => ({
+    name,
+    type: fieldType(property),
+    description: property.description,
+  }));
+}
+
+// Words that name the same kind of field
+const SYNONYMS = [
+  ["name", "title", "heading", "product", "label"],
+  ["price", "cost", "amount", "fee"],
+  ["url", "link", "href"],
+  ["image", "img", "photo", "picture", "thumbnail"],
+  ["description", "summary", "desc", "details", "text"],
+  ["rating", "stars", "score"],
+  ["date", "time", "published", "posted", "datetime"],
+  ["author", "by", "byline", "writer"],
+  ["count", "quantity", "qty", "number"],
+];
+
+// Lower-case words of a name, split at camelCase, digits and punctuation
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// How well a page field fits a schema property; 0 if not at all
+function matchScore(property: PropertySpec, field: string): number {
+  const fieldWords = words(field);
+  const propertyWords = words(property.name);
+  if (fieldWords.join(" ") === propertyWords.join(" ")) return 100;
+  let score = 0;
+  for (const word of propertyWords) {
+    if (fieldWords.includes(word)) {
+      score += 30;
+    } else {
+      const group = SYNONYMS.find((synonyms) => synonyms.includes(word));
+      if (group?.some((synonym) => fieldWords.includes(synonym))) score += 15;
+    }
+  }
+  for (const word of words(property.description ?? "")) {
+    if (word.length > 2 && fieldWords.includes(word)) score += 5;
+  }
+  // Prefer specific fields to the catch-all text
+  return field === "text" ? score / 2 : score;
+}
+
+// Each property's best field, every field used at most once
+function mapFields(
+  properties: PropertySpec[],
+  fields: string[]
+): Map<string, string> {
+  const candidates = properties
+    .flatMap((property) =>
+      fields.map((field) => ({
+        property: property.name,
+        field,
+        score: matchScore(property, field),
+      }))
+    )
+    .filter((candidate) => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+  const mapping = new Map<string, string>();
+  const used = new Set<string>();
+  for (const { property, field } of candidates) {
+    if (mapping.has(property) || used.has(field)) continue;
+    mapping.set(property, field);
+    used.add(field);
+  }
+  return mapping;
+}
+
+/**
+ * The number in text like "$1,299.00", "4.5 out of 5" or "1.234,50 €", or
+ * undefined if there is none.
+ */
+export function parseNumber(text: string): number | undefined {
+  const match = text.match(/-?\d[\d.,]*\d|-?\d/);
+  if (!match) return undefined;
+  let digits = match[0];
+  const comma = digits.lastIndexOf(",");
+  const dot = digits.lastIndexOf(".");
+  if (comma >= 0 && dot >= 0) {
+    // The later separator is the decimal one
+    digits =
+      comma > dot
+        ? digits.replace(/\./g, "").replace(",", ".")
+        : digits.replace(/,/g, "");
+  } else if (comma >= 0) {
+    digits = /^-?\d{1,3}(,\d{3})+$/.test(digits)
+      ? digits.replace(/,/g, "")
+      : digits.replace(",", ".");
+  } else if (digits.split(".").length > 2) {
+    digits = digits.replace(/\./g, "");
+  }
+  const value = Number(digits);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// Page text converted to the property's type where it can be; left as text
+// otherwise, so validation reports it
+function coerce(value: string | undefined, type: FieldType): unknown {
+  if (value === undefined || value === "") return undefined;
+  switch (type) {
+    case "number":
+      return parseNumber(value) ?? value;
+    case "boolean":
+      if (/^(yes|true|y|on|✓|✔|in stock|available)$/i.test(value)) return true;
+      if (/^(no|false|n|off|✗|✘|out of stock|unavailable|sold out)$/i.test(value)) {
+        return false;
+      }
+      return value;
+    case "array":
+      return value.split(/\s*[,;]\s*/).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Pick the record set that fits the schema best, map its fields onto the
+ * schema's properties and validate the first `limit` records.
+ */
+export function extractRecords(
+  sets: RecordSet[],
+  schema: z.ZodObject<z.ZodRawShape>,
+  limit: number
+): ExtractResult {
+  const properties = propertiesOf(schema);
+  const scored = sets.map((set) => {
+    const mapping = mapFields(properties, set.fields);
+    // Better matches first, then more records
+    const fit = properties.reduce((sum, property) => {
+      const field = mapping.get(property.name);
+      return field ? sum + matchScore(property, field) : sum;
+    }, 0);
+    return { set, mapping, score: fit * 1000 + Math.min(set.records.length, 999) };
+  });
+  const best = scored
+    .filter((candidate) => candidate.mapping.size > 0)
+    .sort((a, b) => b.score - a.score)[0];
+  const others = sets
+    .filter((set) => set !== best?.set)
+    .map((set) => set.source);
+  if (!best) {
+    return {
+      source: "",
+      records: [],
+      invalid: [],
+      total: 0,
+      unmatched: properties.map((property) => property.name),
+      available: [],
+      others,
+    };
+  }
+
+  const records: unknown[] = [];
+  const invalid: InvalidRecord[] = [];
+  best.set.records.slice(0, limit).forEach((fields, i) => {
+    const record = Object.fromEntries(
+      properties.map((property) => {
+        const field = best.mapping.get(property.name);
+        return [property.name, coerce(field ? fields[field] : undefined, property.type)];
+      })
+    );
+    const parsed = schema.safeParse(record);
+    if (parsed.success) {
+      records.push(parsed.data);
+      return;
+    }
+    invalid.push({
+      index: i + 1,
+      record,
+      issues: parsed.error.issues.map((issue) => {
+        const path = issue.path.join(".") || "record";
+        const field = best.mapping.get(String(issue.path[0]));
+        const shown = field && fields[field] ? ` (page text: "${fields[field]}")` : "";
+        return `${path}: ${issue.message}${shown}`;
+      }),
+    });
+  });
+
+  return {
+    source: best.set.source,
+    records,
+    invalid,
+    total: best.set.records.length,
+    unmatched: properties
+      .map((property) => property.name)
+      .filter((name) => !best.mapping.has(name)),
+    available: best.set.fields,
+    others,
+  };
+}
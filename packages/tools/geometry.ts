@@ -0,0 +1,113 @@
+/**
+ * How the browser is sized and how its screenshots are turned into the image
+ * the model sees. Element boxes and clicks are in page space (CSS pixels of the
+ * viewport); everything the model sees or gives as coordinates is in image space.
+ */
+export interface Geometry {
+  // Browser viewport in CSS pixels
+  viewport: { width: number; height: number };
+  // Size of the image sent to the model
+  image: { width: number; height: number };
+  // Keep the page's aspect ratio and fill the rest of the image with black
+  // bars (true), or stretch the page to the image size (false)
+  padding: boolean;
+  // Device pixels per CSS pixel; higher renders sharper text before downscaling
+  deviceScaleFactor: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Box extends Point {
+  width: number;
+  height: number;
+}
+
+/**
+ * Geometry presets, picked per model with the CLI's --geometry flag.
+ */
+export const geometryProfiles = {
+  // Page drawn 1:1 into the 896x896 image Gemma 3's vision encoder expects
+  square: {
+    viewport: { width: 896, height: 896 },
+    image: { width: 896, height: 896 },
+    padding: true,
+    deviceScaleFactor: 1,
+  },
+  // A laptop-sized layout, letterboxed into the same square image
+  desktop: {
+    viewport: { width: 1280, height: 800 },
+    image: { width: 896, height: 896 },
+    padding: true,
+    deviceScaleFactor: 1,
+  },
+  // Square layout rendered at twice the resolution, for small text
+  hidpi: {
+    viewport: { width: 896, height: 896 },
+    image: { width: 896, height: 896 },
+    padding: true,
+    deviceScaleFactor: 2,
+  },
+} satisfies Record<string, Geometry>;
+
+export type GeometryProfile = keyof typeof geometryProfiles;
+
+export const defaultGeometry: Geometry = geometryProfiles.square;
+
+// Scale and offset from page space to image space
+function transform(geometry: Geometry): {
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+} {
+  const { viewport, image } = geometry;
+  if (!geometry.padding) {
+    return {
+      scaleX: image.width / viewport.width,
+      scaleY: image.height / viewport.height,
+      offsetX: 0,
+      offsetY: 0,
+    };
+  }
+  // Padding is split evenly on both sides, like sharp's "contain" fit
+  const scale = Math.min(
+    image.width / viewport.width,
+    image.height / viewport.height
+  );
+  return {
+    scaleX: scale,
+    scaleY: scale,
+    offsetX: (image.width - viewport.width * scale) / 2,
+    offsetY: (image.height - viewport.height * scale) / 2,
+  };
+}
+
+export function toImagePoint(geometry: Geometry, point: Point): Point {
+  const { scaleX, scaleY, offsetX, offsetY } = transform(geometry);
+  return { x: point.x * scaleX + offsetX, y: point.y * scaleY + offsetY };
+}
+
+export function toImageBox(geometry: Geometry, box: Box): Box {
+  const { scaleX, scaleY } = transform(geometry);
+  return {
+    ...toImagePoint(geometry, box),
+    width: box.width * scaleX,
+    height: box.height * scaleY,
+  };
+}
+
+/**
+ * Convert a point in the image to page coordinates. Points on the padding are
+ * clamped to the nearest edge of the page.
+ */
+export function toPagePoint(geometry: Geometry, point: Point): Point {
+  const { scaleX, scaleY, offsetX, offsetY } = transform(geometry);
+  const { width, height } = geometry.viewport;
+  return {
+    x: Math.min(width - 1, Math.max(0, (point.x - offsetX) / scaleX)),
+    y: Math.min(height - 1, Math.max(0, (point.y - offsetY) / scaleY)),
+  };
+}
@@ -6,6 +6,7 @@ export {
   getContents,
   getContentsSchema,
   type GetContentsInput,
+  type GetContentsResult,
   reload,
   reloadSchema,
   type ReloadInput,
@@ -24,7 +25,10 @@ export {
   type LabeledScreenshotInput,
   type LabeledScreenshotResult,
   type LabeledScreenshotData,
-  type LabeledElement,
+  listElements,
+  listElementsSchema,
+  type ListElementsInput,
+  type ListElementsResult,
   click,
   clickSchema,
   type ClickInput,
@@ -33,13 +37,173 @@ export {
   clickByLabelSchema,
   type ClickByLabelInput,
   type ClickByLabelResult,
-  setLastDetectedElements,
+  hoverByLabel,
+  hoverByLabelSchema,
+  type HoverByLabelInput,
+  dragByLabel,
+  dragByLabelSchema,
+  type DragByLabelInput,
+  type PointerResult,
+  typeByLabel,
+  typeByLabelSchema,
+  type TypeByLabelInput,
+  selectOptionByLabel,
+  selectOptionByLabelSchema,
+  type SelectOptionByLabelInput,
+  type SelectOptionByLabelResult,
+  setCheckedByLabel,
+  setCheckedByLabelSchema,
+  type SetCheckedByLabelInput,
+  fillForm,
+  fillFormSchema,
+  type FillFormInput,
+  type FieldValue,
+  type FormToolResult,
   scroll,
   scrollSchema,
   type ScrollInput,
   type,
   typeSchema,
   type TypeInput,
+  keyboard,
+  keyboardSchema,
+  type KeyboardInput,
+  press,
+  pressSchema,
+  type PressInput,
+  listTabs,
+  listTabsSchema,
+  type ListTabsInput,
+  switchTab,
+  switchTabSchema,
+  type SwitchTabInput,
+  openTab,
+  openTabSchema,
+  type OpenTabInput,
+  closeTab,
+  closeTabSchema,
+  type CloseTabInput,
+  goBack,
+  goBackSchema,
+  type GoBackInput,
+  goForward,
+  goForwardSchema,
+  type GoForwardInput,
+  type HistoryNavigationResult,
+  getHistory,
+  getHistorySchema,
+  type GetHistoryInput,
+  type GetHistoryResult,
+  uploadFileByLabel,
+  uploadFileByLabelSchema,
+  type UploadFileByLabelInput,
+  type UploadFileByLabelResult,
+  readDownloadedFile,
+  readDownloadedFileSchema,
+  type ReadDownloadedFileInput,
+  respondToDialog,
+  respondToDialogSchema,
+  type RespondToDialogInput,
+  waitFor,
+  waitForSchema,
+  type WaitForInput,
+  extract,
+  extractSchema,
+  type ExtractInput,
+  exportTable,
+  exportTableSchema,
+  type ExportTableInput,
+  type ExportTableResult,
 } from "./browser.ts";
 
-export { createBrowserTools, type BrowserTools } from "./ai-tools.ts";
+export {
+  detectClickableElements,
+  getElementCategory,
+  resolveElement,
+  scrollElementIntoView,
+  type ElementCategory,
+  type LabeledElement,
+} from "./elements.ts";
+
+export {
+  defaultGeometry,
+  geometryProfiles,
+  toImageBox,
+  toImagePoint,
+  toPagePoint,
+  type Box,
+  type Geometry,
+  type GeometryProfile,
+  type Point,
+} from "./geometry.ts";
+
+export {
+  defaultSettleSettings,
+  settle,
+  type SettleResult,
+  type SettleSettings,
+} from "./settle.ts";
+
+export {
+  formatCsv,
+  type DownloadInfo,
+  type WorkspaceFileContents,
+} from "./workspace.ts";
+
+export {
+  CHUNK_CHARS,
+  chunkMarkdown,
+  extractReadable,
+  type ReadableDocument,
+} from "./reader.ts";
+
+export {
+  jsonSchemaToZod,
+  type ExtractResult,
+  type InvalidRecord,
+  type JsonSchema,
+  type TableData,
+} from "./extract.ts";
+
+export {
+  actionRuleSchema,
+  checkAction,
+  checkUrl,
+  defaultNavigationPolicy,
+  navigationPolicySchema,
+  type ActionRule,
+  type NavigationPolicy,
+  type NavigationPolicyInput,
+  type PolicyAction,
+  type PolicyDecision,
+  type PolicyTarget,
+} from "./policy.ts";
+
+export {
+  BrowserSession,
+  type BrowserSessionOptions,
+  type DialogInfo,
+  type DialogPolicy,
+  type ScreenshotSettings,
+  type TabInfo,
+  type NavigationEntry,
+} from "./session.ts";
+
+export {
+  createBrowserTools,
+  formatElementList,
+  formatFieldValues,
+  formatDownloads,
+  formatFileContents,
+  formatReadableContent,
+  formatExtractResult,
+  formatTableExport,
+  formatPolicyRefusal,
+  formatDialog,
+  formatTabList,
+  formatNavigationTimeline,
+  type BrowserTools,
+  type ToolDefinition,
+  type ToolResult,
+  type ToolSchemas,
+} from "./ai-tools.ts";
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import type { Box } from "./geometry.ts";
+import { renderLabelOverlay, type LabelItem } from "./label-layout.ts";
+
+const image = { width: 896, height: 896 };
+
+function itemsOf(boxes: Box[]): LabelItem[] {
+  return boxes.map((box, index) => ({
+    label: index + 1,
+    color: "#3B82F6",
+    box,
+    name: `Item ${index + 1}`,
+  }));
+}
+
+// Crowded layouts where badges at the top-left corners used to pile up
+const fixtures: Record<string, LabelItem[]> = {
+  "an icon toolbar": itemsOf(
+    Array.from({ length: 16 }, (_, i) => ({ x: 20 + i * 36, y: 40, width: 32, height: 32 }))
+  ),
+  "stacked nav links without gaps": itemsOf(
+    Array.from({ length: 24 }, (_, i) => ({
+      x: 20 + (i % 8) * 80,
+      y: 100 + Math.floor(i / 8) * 20,
+      width: 80,
+      height: 20,
+    }))
+  ),
+  "a tight grid of small buttons": itemsOf(
+    Array.from({ length: 30 }, (_, i) => ({
+      x: 300 + (i % 6) * 26,
+      y: 300 + Math.floor(i / 6) * 26,
+      width: 24,
+      height: 24,
+    }))
+  ),
+  "a toolbar at the image's top edge": itemsOf(
+    Array.from({ length: 20 }, (_, i) => ({ x: i * 30, y: 0, width: 28, height: 28 }))
+  ),
+};
+
+// The badges drawn in an overlay, read back from its SVG
+function badgesOf(svg: string): (Box & { label: number })[] {
+  return Array.from(
+    svg.matchAll(
+      /<rect x="([-\d.]+)" y="([-\d.]+)" width="([\d.]+)" height="([\d.]+)" rx="\d+" fill="[^"]+" stroke="white"[^>]*\/><text[^>]*>(\d+)<\/text>/g
+    ),
+    (match) => ({
+      x: Number(match[1]),
+      y: Number(match[2]),
+      width: Number(match[3]),
+      height: Number(match[4]),
+      label: Number(match[5]),
+    })
+  );
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return (
+    Math.min(a.x + a.width, b.x + b.width) > Math.max(a.x, b.x) &&
+    Math.min(a.y + a.height, b.y + b.height) > Math.max(a.y, b.y)
+  );
+}
+
+// Badges overlapping another badge, and badges over their own element
+function collisions(badges: Box[], own: Box[]): { badges: number; own: number } {
+  let badgePairs = 0;
+  for (let i = 0; i < badges.length; i++) {
+    for (let j = i + 1; j < badges.length; j++) {
+      if (overlaps(badges[i]!, badges[j]!)) badgePairs++;
+    }
+  }
+  return {
+    badges: badgePairs,
+    own: badges.filter((badge, i) => overlaps(badge, own[i]!)).length,
+  };
+}
+
+// The former layout: a 12px circle on each element's top-left corner
+function formerBadges(items: LabelItem[]): Box[] {
+  return items.map(({ box }) => ({
+    x: Math.max(12, box.x) - 12,
+    y: Math.max(12, box.y) - 12,
+    width: 24,
+    height: 24,
+  }));
+}
+
+describe("renderLabelOverlay on crowded layouts", () => {
+  for (const [layout, items] of Object.entries(fixtures)) {
+    test(`keeps badges apart and off their elements in ${layout}`, () => {
+      const overlay = renderLabelOverlay(items, image, { highContrast: false });
+      const badges = badgesOf(overlay.svg);
+
+      // Every element is labeled once, by a badge or in the legend
+      const labels = [...badges.map((badge) => badge.label), ...overlay.legendLabels];
+      expect(labels.sort((a, b) => a - b)).toEqual(items.map((item) => item.label));
+
+      const boxes = badges.map((badge) => items[badge.label - 1]!.box);
+      expect(collisions(badges, boxes)).toEqual({ badges: 0, own: 0 });
+
+      // Badges stay inside the image
+      for (const badge of badges) {
+        expect(badge.x).toBeGreaterThanOrEqual(0);
+        expect(badge.y).toBeGreaterThanOrEqual(0);
+        expect(badge.x + badge.width).toBeLessThanOrEqual(image.width);
+        expect(badge.y + badge.height).toBeLessThanOrEqual(image.height);
+      }
+    });
+  }
+
+  test("has fewer collisions than badges on the top-left corners", () => {
+    let before = 0;
+    let after = 0;
+    for (const items of Object.values(fixtures)) {
+      const former = collisions(
+        formerBadges(items),
+        items.map((item) => item.box)
+      );
+      before += former.badges + former.own;
+
+      const badges = badgesOf(renderLabelOverlay(items, image, { highContrast: false }).svg);
+      const now = collisions(
+        badges,
+        badges.map((badge) => items[badge.label - 1]!.box)
+      );
+      after += now.badges + now.own;
+    }
+    expect(before).toBeGreaterThan(0);
+    expect(after).toBe(0);
+  });
+});
@@ -0,0 +1,253 @@
+import type { Box } from "./geometry.ts";
+
+/**
+ * An element to label on the screenshot. The box is in image coordinates.
+ */
+export interface LabelItem {
+  label: number;
+  color: string;
+  box: Box;
+  // Shown in the legend if the badge finds no room near the element
+  name: string;
+}
+
+export interface LabelOverlayOptions {
+  // Dim everything outside the labeled elements
+  highContrast: boolean;
+}
+
+export interface LabelOverlay {
+  svg: string;
+  // Labels drawn away from their element with a leader line
+  leaderLabels: number[];
+  // Labels listed in the legend because no room was found near their element
+  legendLabels: number[];
+}
+
+// Where a badge is drawn; x and y are its top-left corner
+type Placement = Box;
+
+const LEGEND_NAME_LENGTH = 24;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function overlapArea(a: Box, b: Box): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Badge radius for this screenshot: 12px normally, smaller when elements are
+ * small or crowded so badges don't bury them.
+ */
+function badgeRadius(items: LabelItem[]): number {
+  const heights = items.map((item) => item.box.height).sort((a, b) => a - b);
+  const medianHeight = heights[Math.floor(heights.length / 2)] ?? 24;
+  const byCount = items.length > 20 ? 9 : 12;
+  return Math.round(Math.max(7, Math.min(12, medianHeight / 2, byCount)));
+}
+
+/**
+ * Lay out numbered badges so they don't cover each other or the text of the
+ * element they label. Each badge tries the spots around its element (above,
+ * left, above-right, below, right) and the element's own corner; of those not
+ * touching another badge, the one covering the least of any element wins.
+ * Badges that find no room move further out with a leader line to their
+ * element, and as a last resort are listed in a legend in the emptiest corner.
+ */
+export function renderLabelOverlay(
+  items: LabelItem[],
+  image: { width: number; height: number },
+  options: LabelOverlayOptions
+): LabelOverlay {
+  const radius = badgeRadius(items);
+  const fontSize = Math.max(8, radius);
+  const badgeHeight = radius * 2;
+  const badgeWidth = (label: number) =>
+    Math.max(badgeHeight, Math.ceil(String(label).length * fontSize * 0.6) + 6);
+
+  const placed: Placement[] = [];
+  const leaderLabels: number[] = [];
+  const legend: LabelItem[] = [];
+  const badges: string[] = [];
+  const leaders: string[] = [];
+
+  const clamp = (spot: Placement): Placement => ({
+    ...spot,
+    x: Math.min(Math.max(0, spot.x), image.width - spot.width),
+    y: Math.min(Math.max(0, spot.y), image.height - spot.height),
+  });
+
+  // Covering the element's own text counts double; touching a badge is not allowed
+  const cost = (spot: Placement, own: LabelItem): number | undefined => {
+    if (placed.some((badge) => overlapArea(spot, inflate(badge, 1)) > 0)) {
+      return undefined;
+    }
+    return items.reduce(
+      (sum, item) =>
+        sum + overlapArea(spot, item.box) * (item === own ? 2 : 1),
+      0
+    );
+  };
+
+  const best = (spots: Placement[], own: LabelItem): Placement | undefined => {
+    let choice: { spot: Placement; cost: number } | undefined;
+    for (const spot of spots.map(clamp)) {
+      const spotCost = cost(spot, own);
+      if (spotCost !== undefined && (!choice || spotCost < choice.cost)) {
+        choice = { spot, cost: spotCost };
+      }
+    }
+    return choice?.spot;
+  };
+
+  const drawBadge = (item: LabelItem, spot: Placement) => {
+    placed.push(spot);
+    const centerX = spot.x + spot.width / 2;
+    const centerY = spot.y + spot.height / 2;
+    badges.push(
+      `<rect x="${spot.x}" y="${spot.y}" width="${spot.width}" height="${spot.height}" rx="${radius}" fill="${item.color}" stroke="white" stroke-width="1"/>`,
+      `<text x="${centerX}" y="${
+        centerY + fontSize / 3
+      }" text-anchor="middle" font-family="Arial, sans-serif" font-size="${fontSize}" font-weight="bold" fill="white">${
+        item.label
+      }</text>`
+    );
+  };
+
+  for (const item of items) {
+    const { box } = item;
+    const width = badgeWidth(item.label);
+    const size = { width, height: badgeHeight };
+    const near = best(
+      [
+        { ...size, x: box.x, y: box.y - badgeHeight },
+        { ...size, x: box.x - width, y: box.y },
+        { ...size, x: box.x + box.width - width, y: box.y - badgeHeight },
+        { ...size, x: box.x, y: box.y + box.height },
+        { ...size, x: box.x + box.width, y: box.y },
+        { ...size, x: box.x, y: box.y },
+      ],
+      item
+    );
+    if (near) {
+      drawBadge(item, near);
+      continue;
+    }
+
+    // Search further out in eight directions from the element's top-left corner
+    const far: Placement[] = [];
+    for (let distance = 2; distance <= 5; distance++) {
+      const step = distance * badgeHeight;
+      for (const [dx, dy] of [
+        [0, -1],
+        [-1, 0],
+        [-1, -1],
+        [1, -1],
+        [0, 1],
+        [1, 0],
+        [-1, 1],
+        [1, 1],
+      ] as const) {
+        far.push({ ...size, x: box.x + dx * step, y: box.y + dy * step });
+      }
+    }
+    const away = best(far, item);
+    if (away) {
+      drawBadge(item, away);
+      leaderLabels.push(item.label);
+      // Point at the nearest edge of the element
+      const fromX = away.x + away.width / 2;
+      const fromY = away.y + away.height / 2;
+      const toX = Math.min(Math.max(fromX, box.x), box.x + box.width);
+      const toY = Math.min(Math.max(fromY, box.y), box.y + box.height);
+      leaders.push(
+        `<line x1="${fromX}" y1="${fromY}" x2="${toX}" y2="${toY}" stroke="${item.color}" stroke-width="1.5"/>`
+      );
+      continue;
+    }
+    legend.push(item);
+  }
+
+  const parts = [
+    ...(options.highContrast ? [renderDimming(items, image)] : []),
+    ...items.map(
+      ({ box, color }) =>
+        `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="none" stroke="${color}" stroke-width="2" rx="3"/>`
+    ),
+    ...leaders,
+    ...badges,
+    ...(legend.length > 0 ? [renderLegend(legend, items, image, fontSize)] : []),
+  ];
+  return {
+    svg: `<svg width="${image.width}" height="${image.height}" xmlns="http://www.w3.org/2000/svg">${parts.join(
+      ""
+    )}</svg>`,
+    leaderLabels,
+    legendLabels: legend.map((item) => item.label),
+  };
+}
+
+function inflate(box: Box, by: number): Box {
+  return {
+    x: box.x - by,
+    y: box.y - by,
+    width: box.width + by * 2,
+    height: box.height + by * 2,
+  };
+}
+
+// A translucent layer over everything but the labeled elements
+function renderDimming(
+  items: LabelItem[],
+  image: { width: number; height: number }
+): string {
+  const holes = items
+    .map(
+      ({ box }) =>
+        `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="black"/>`
+    )
+    .join("");
+  return `<defs><mask id="interactive"><rect width="${image.width}" height="${image.height}" fill="white"/>${holes}</mask></defs><rect width="${image.width}" height="${image.height}" fill="black" fill-opacity="0.55" mask="url(#interactive)"/>`;
+}
+
+// A list of labels and names, in the corner that covers the fewest elements
+function renderLegend(
+  legend: LabelItem[],
+  items: LabelItem[],
+  image: { width: number; height: number },
+  fontSize: number
+): string {
+  const lineHeight = fontSize + 6;
+  const width = Math.min(
+    image.width,
+    Math.ceil((LEGEND_NAME_LENGTH + 6) * fontSize * 0.6) + 12
+  );
+  const height = Math.min(image.height, legend.length * lineHeight + 8);
+  const corners: Box[] = [
+    { x: image.width - width, y: image.height - height, width, height },
+    { x: 0, y: image.height - height, width, height },
+    { x: image.width - width, y: 0, width, height },
+    { x: 0, y: 0, width, height },
+  ];
+  const covered = (corner: Box) =>
+    items.reduce((sum, item) => sum + overlapArea(corner, item.box), 0);
+  const corner = corners.reduce((a, b) => (covered(b) < covered(a) ? b : a));
+
+  const lines = legend.map((item, index) => {
+    const name =
+      item.name.length > LEGEND_NAME_LENGTH
+        ? `${item.name.slice(0, LEGEND_NAME_LENGTH)}...`
+        : item.name;
+    const y = corner.y + 4 + (index + 1) * lineHeight - 6;
+    return `<text x="${corner.x + 6}" y="${y}" font-family="Arial, sans-serif" font-size="${fontSize}" fill="white"><tspan font-weight="bold" fill="${item.color}">${item.label}</tspan> ${escapeXml(name)}</text>`;
+  });
+  return `<rect x="${corner.x}" y="${corner.y}" width="${corner.width}" height="${corner.height}" fill="black" fill-opacity="0.8" rx="4"/>${lines.join("")}`;
+}
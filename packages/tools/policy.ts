@@ -0,0 +1,440 @@
+import type { ElementHandle, Frame, Page } from "playwright";
+import { z } from "zod";
+import type { LabeledElement } from "./elements.ts";
+import type { Point } from "./geometry.ts";
+
+/**
+ * The browsing policy: which URLs the browser may open and which elements
+ * the agent may act on. Navigations are checked as requests leave the
+ * browser, redirects hop by hop; actions are checked before a tool runs.
+ * Every decision is logged and refusals go back to the model.
+ */
+
+export type PolicyAction =
+  | "navigate"
+  | "redirect"
+  | "click"
+  | "hover"
+  | "drag"
+  | "type"
+  | "select"
+  | "check"
+  | "upload";
+
+// Text patterns are case-insensitive substrings, or /regex/flags
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+// A /regex/flags pattern compiled; undefined for a substring. Throws if the
+// regex is invalid
+function compilePattern(pattern: string): RegExp | undefined {
+  const regex = REGEX_PATTERN.exec(pattern);
+  return regex ? new RegExp(regex[1]!, regex[2]) : undefined;
+}
+
+// Regexes are compiled when the policy is parsed, so a bad one fails on load
+const textPattern = z
+  .string()
+  .min(1)
+  .superRefine((pattern, context) => {
+    try {
+      compilePattern(pattern);
+    } catch (error) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid regex ${pattern}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      });
+    }
+  });
+
+export const actionRuleSchema = z.object({
+  rule: z.string().describe('Name shown in refusals and the log, e.g. "no-payments"'),
+  actions: z
+    .array(z.enum(["click", "hover", "drag", "type", "select", "check", "upload"]))
+    .min(1)
+    .describe("The actions the rule forbids"),
+  role: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .describe('ARIA role of the element, e.g. "button"'),
+  elementType: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .describe('Kind of element as listed for the model, e.g. "input[password]" or "link"'),
+  text: textPattern
+    .optional()
+    .describe("Pattern the element's name or text must match, e.g. /buy|pay|delete/i"),
+});
+
+export type ActionRule = z.infer<typeof actionRuleSchema>;
+
+export const navigationPolicySchema = z.object({
+  // Patterns: "example.com" matches it and its subdomains, "*.example.com"
+  // only the subdomains. Without allowed domains, every domain not blocked is.
+  allowedDomains: z.array(z.string()).optional().default([]),
+  blockedDomains: z.array(z.string()).optional().default([]),
+  // Without the colon, e.g. "file"
+  blockedSchemes: z
+    .array(z.string())
+    .optional()
+    .default([
+      "file",
+      "chrome",
+      "chrome-extension",
+      "chrome-untrusted",
+      "devtools",
+      "view-source",
+      "javascript",
+      "data",
+    ]),
+  // localhost, private and link-local IP ranges, single-label and .local
+  // or .internal host names; host names aren't resolved
+  blockPrivateNetworks: z.boolean().optional().default(false),
+  actionRules: z.array(actionRuleSchema).optional().default([]),
+});
+
+export type NavigationPolicy = z.infer<typeof navigationPolicySchema>;
+
+// As given in options and policy files, with the defaults left out
+export type NavigationPolicyInput = z.input<typeof navigationPolicySchema>;
+
+export const defaultNavigationPolicy: NavigationPolicy =
+  navigationPolicySchema.parse({});
+
+/** One policy decision, allowed or not, as logged. */
+export interface PolicyDecision {
+  allowed: boolean;
+  action: PolicyAction;
+  // The URL or element acted on, e.g. 'button "Pay now"'
+  target: string;
+  // The rule that refused it, e.g. "blocked-scheme" or an action rule's name
+  rule?: string;
+  reason?: string;
+  // The tool that was running, when known
+  tool?: string;
+  time: number;
+}
+
+/** What an action rule is tested against: a labeled element or the one under a point. */
+export type PolicyTarget = Pick<LabeledElement, "role" | "type" | "name" | "text"> & {
+  href?: string;
+};
+
+function decide(
+  action: PolicyAction,
+  target: string,
+  refusal?: { rule: string; reason: string }
+): PolicyDecision {
+  return { allowed: !refusal, action, target, ...refusal, time: Date.now() };
+}
+
+function domainMatches(host: string, pattern: string): boolean {
+  const domain = pattern.toLowerCase().replace(/\.$/, "");
+  if (domain.startsWith("*.")) return host.endsWith(domain.slice(1));
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function isPrivateIpv4(a: number, b: number): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function isPrivateHost(host: string): boolean {
+  const name = host.replace(/^\[|\]$/g, "");
+  if (
+    name === "localhost" ||
+    /\.(localhost|local|internal)$/.test(name) ||
+    (!name.includes(".") && !name.includes(":"))
+  ) {
+    return true;
+  }
+  const ipv4 = name.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) return isPrivateIpv4(Number(ipv4[1]), Number(ipv4[2]));
+
+  // IPv4-mapped IPv6, dotted (::ffff:127.0.0.1) or as the URL parser writes
+  // it (::ffff:7f00:1), is the IPv4 address it maps
+  const mappedDotted = name.match(/^::ffff:(\d+)\.(\d+)\.\d+\.\d+$/i);
+  if (mappedDotted) {
+    return isPrivateIpv4(Number(mappedDotted[1]), Number(mappedDotted[2]));
+  }
+  const mappedHex = name.match(/^::ffff:([0-9a-f]{1,4}):[0-9a-f]{1,4}$/i);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1]!, 16);
+    return isPrivateIpv4(high >> 8, high & 0xff);
+  }
+  // Unspecified, loopback, unique local (fc00::/7) and link-local (fe80::/10) IPv6
+  return (
+    name === "::" ||
+    name === "::1" ||
+    /^f[cd][0-9a-f]{2}:/.test(name) ||
+    /^fe[89ab][0-9a-f]:/.test(name)
+  );
+}
+
+/**
+ * Whether the policy lets the browser open a URL. about:blank is always
+ * allowed; other non-web URLs only need their scheme not to be blocked.
+ */
+export function checkUrl(
+  policy: NavigationPolicy,
+  url: string,
+  action: "navigate" | "redirect" = "navigate"
+): PolicyDecision {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return decide(action, url, { rule: "invalid-url", reason: "it is not a valid URL" });
+  }
+  if (parsed.href === "about:blank") return decide(action, url);
+
+  const scheme = parsed.protocol.replace(/:$/, "");
+  if (policy.blockedSchemes.some((blocked) => blocked.toLowerCase() === scheme)) {
+    return decide(action, url, {
+      rule: "blocked-scheme",
+      reason: `${scheme}: URLs may not be opened`,
+    });
+  }
+  if (scheme !== "http" && scheme !== "https") return decide(action, url);
+
+  const host = parsed.hostname.toLowerCase();
+  const blocked = policy.blockedDomains.find((pattern) => domainMatches(host, pattern));
+  if (blocked) {
+    return decide(action, url, {
+      rule: "blocked-domain",
+      reason: `${host} matches the blocked domain ${blocked}`,
+    });
+  }
+  if (
+    policy.allowedDomains.length > 0 &&
+    !policy.allowedDomains.some((pattern) => domainMatches(host, pattern))
+  ) {
+    return decide(action, url, {
+      rule: "domain-not-allowed",
+      reason: `${host} is not one of the allowed domains (${policy.allowedDomains.join(", ")})`,
+    });
+  }
+  if (policy.blockPrivateNetworks && isPrivateHost(host)) {
+    return decide(action, url, {
+      rule: "private-network",
+      reason: `${host} is on a private network`,
+    });
+  }
+  return decide(action, url);
+}
+
+/** Whether the policy needs every request checked, not just the final URL. */
+export function checksHosts(policy: NavigationPolicy): boolean {
+  return (
+    policy.allowedDomains.length > 0 ||
+    policy.blockedDomains.length > 0 ||
+    policy.blockPrivateNetworks
+  );
+}
+
+function matchesText(pattern: string, text: string): boolean {
+  const regex = compilePattern(pattern);
+  if (regex) return regex.test(text);
+  return text.toLowerCase().includes(pattern.toLowerCase());
+}
+
+function matchesAny(value: string, expected: string | string[] | undefined): boolean {
+  if (expected === undefined) return true;
+  return (Array.isArray(expected) ? expected : [expected]).some(
+    (option) => option.toLowerCase() === value.toLowerCase()
+  );
+}
+
+/** How an element is named in decisions, e.g. 'button "Pay now"'. */
+export function describeTarget(target: PolicyTarget): string {
+  const name = target.name || target.text;
+  return name ? `${target.role || target.type} "${name}"` : target.role || target.type;
+}
+
+const ACTION_VERBS: Record<ActionRule["actions"][number], string> = {
+  click: "clicking",
+  hover: "hovering over",
+  drag: "dragging",
+  type: "typing into",
+  select: "selecting in",
+  check: "checking",
+  upload: "uploading to",
+};
+
+/**
+ * Whether the policy lets the agent act on an element: refused by the first
+ * action rule whose role, element type and text all match it.
+ */
+export function checkAction(
+  policy: NavigationPolicy,
+  action: ActionRule["actions"][number],
+  target: PolicyTarget
+): PolicyDecision {
+  const description = describeTarget(target);
+  const rule = policy.actionRules.find(
+    (rule) =>
+      rule.actions.includes(action) &&
+      matchesAny(target.role, rule.role) &&
+      matchesAny(target.type, rule.elementType) &&
+      (rule.text === undefined ||
+        matchesText(rule.text, target.name) ||
+        matchesText(rule.text, target.text))
+  );
+  if (!rule) return decide(action, description);
+  return decide(action, description, {
+    rule: rule.rule,
+    reason: `${ACTION_VERBS[action]} ${description} is not allowed`,
+  });
+}
+
+// Nested frames followed at most, against pages framing themselves
+const MAX_FRAME_DEPTH = 10;
+
+/**
+ * The element under a page point, matching a CSS selector, or else the
+ * focused one, described like a labeled element so action rules apply to
+ * coordinate clicks and typing too. Points and focus are followed into open
+ * shadow roots and iframes down to the innermost element. With `submitter`,
+ * the button that submits that element's form instead, which pressing Enter
+ * in a field clicks. Undefined if there is none; throws if the page can't be
+ * asked.
+ */
+export async function targetAt(
+  page: Page,
+  where?: Point | string,
+  submitter = false
+): Promise<PolicyTarget | undefined> {
+  const element: ElementHandle<Element> | null =
+    typeof where === "string"
+      ? await page.$(where)
+      : await innermostElement(page, where);
+  if (!element) return undefined;
+  try {
+    return await element.evaluate(describeElement, submitter);
+  } finally {
+    await element.dispose();
+  }
+}
+
+// The element under a point (in page coordinates) or the focused one, in
+// whichever frame and shadow root it is
+async function innermostElement(
+  page: Page,
+  point: Point | undefined
+): Promise<ElementHandle<Element> | null> {
+  let frame: Frame = page.mainFrame();
+  for (let depth = 0; depth < MAX_FRAME_DEPTH; depth++) {
+    const handle = await frame.evaluateHandle((point) => {
+      let el = point
+        ? document.elementFromPoint(point.x, point.y)
+        : document.activeElement;
+      while (el?.shadowRoot) {
+        const inner = point
+          ? el.shadowRoot.elementFromPoint(point.x, point.y)
+          : el.shadowRoot.activeElement;
+        if (!inner || inner === el) break;
+        el = inner;
+      }
+      return el;
+    }, point);
+    const element = handle.asElement();
+    if (!element) {
+      await handle.dispose();
+      return null;
+    }
+    const child = await element.contentFrame();
+    if (!child) return element;
+
+    // An iframe: carry on inside it, with the point in its coordinates
+    if (point) {
+      const origin = await element.evaluate((iframe) => {
+        const box = iframe.getBoundingClientRect();
+        const style = getComputedStyle(iframe);
+        return {
+          x: box.left + iframe.clientLeft + parseFloat(style.paddingLeft),
+          y: box.top + iframe.clientTop + parseFloat(style.paddingTop),
+        };
+      });
+      point = { x: point.x - origin.x, y: point.y - origin.y };
+    }
+    await element.dispose();
+    frame = child;
+  }
+  throw new Error("Frames are nested too deeply");
+}
+
+// Runs in the page: an element described like a labeled element
+function describeElement(
+  found: Element,
+  submitter: boolean
+): PolicyTarget | undefined {
+  const hit = submitter
+    ? found
+        .closest("form")
+        ?.querySelector(
+          "button:not([type]), button[type=submit], input[type=submit], input[type=image]"
+        )
+    : found;
+  if (!hit || hit === document.body || hit === document.documentElement) {
+    return undefined;
+  }
+  const el =
+    hit.closest("a[href], button, input, select, textarea, [role], label") ?? hit;
+  const tag = el.tagName.toLowerCase();
+  const inputType = el instanceof HTMLInputElement ? el.type : "";
+  const type = tag === "a" ? "link" : tag === "input" ? `input[${inputType}]` : tag;
+  const IMPLICIT_ROLES: Record<string, string> = {
+    a: "link",
+    button: "button",
+    select: "combobox",
+    textarea: "textbox",
+    "input[checkbox]": "checkbox",
+    "input[radio]": "radio",
+    "input[button]": "button",
+    "input[submit]": "button",
+    "input[reset]": "button",
+    "input[search]": "searchbox",
+  };
+  const role =
+    el.getAttribute("role") ??
+    IMPLICIT_ROLES[type] ??
+    IMPLICIT_ROLES[tag] ??
+    (tag === "input" ? "textbox" : "generic");
+  const text = ((el as HTMLElement).innerText ?? "").replace(/\s+/g, " ").trim();
+  const name =
+    el.getAttribute("aria-label") ??
+    el.getAttribute("title") ??
+    (el instanceof HTMLInputElement && el.type !== "password" ? el.value : "") ??
+    "";
+  return {
+    role,
+    type,
+    name: name || text || el.getAttribute("placeholder") || "",
+    text,
+    href: el instanceof HTMLAnchorElement ? el.href : undefined,
+  };
+}
+
+/**
+ * The refusal for an action whose element couldn't be determined, given when
+ * the policy has action rules that might have refused it.
+ */
+export function refuseUnknownTarget(
+  action: ActionRule["actions"][number],
+  error: unknown
+): PolicyDecision {
+  const message = error instanceof Error ? error.message : String(error);
+  return decide(action, "unknown element", {
+    rule: "unknown-target",
+    reason: `the element for ${ACTION_VERBS[action]} could not be determined (${
+      message.split("\n")[0]
+    })`,
+  });
+}
@@ -0,0 +1,348 @@
+import type { Page } from "playwright";
+
+/**
+ * Reader mode: the main content of a page as Markdown, without navigation,
+ * footers, cookie banners and the like, split into chunks the model reads
+ * one at a time.
+ */
+
+// Longest chunk returned at a time, in characters
+export const CHUNK_CHARS = 8000;
+
+export interface ReadableDocument {
+  title: string;
+  // What the content was taken from, e.g. "article", "main", "div#content"
+  source: string;
+  markdown: string;
+}
+
+/**
+ * Find the main content of the page (or the element matching `selector`) and
+ * convert it to Markdown, keeping headings, lists, tables, code and link
+ * URLs. Returns undefined if the selector matches nothing.
+ */
+export async function extractReadable(
+  page: Page,
+  selector?: string
+): Promise<ReadableDocument | undefined> {
+  return page.evaluate((selector) => {
+    // Never content, wherever they are
+    const SKIPPED = new Set([
+      "SCRIPT",
+      "STYLE",
+      "NOSCRIPT",
+      "TEMPLATE",
+      "SVG",
+      "CANVAS",
+      "IFRAME",
+      "IMG",
+      "PICTURE",
+      "VIDEO",
+      "AUDIO",
+      "BUTTON",
+      "INPUT",
+      "SELECT",
+      "TEXTAREA",
+      "DIALOG",
+    ]);
+    // Page furniture, skipped inside the content unless asked for by selector
+    const FURNITURE_TAGS = new Set(["NAV", "FOOTER", "ASIDE"]);
+    const FURNITURE_ROLES = new Set([
+      "navigation",
+      "banner",
+      "contentinfo",
+      "complementary",
+      "dialog",
+      "alertdialog",
+      "search",
+    ]);
+    const FURNITURE_NAMES =
+      /(^|[-_\s])(nav|navbar|menu|footer|sidebar|cookies?|consent|gdpr|share|social|related|comments?|advert|ads|promo|newsletter|breadcrumbs?|skip)([-_\s]|$)/i;
+
+    const isHidden = (el: Element): boolean => {
+      if (
+        el.getAttribute("aria-hidden") === "true" ||
+        el.hasAttribute("hidden")
+      ) {
+        return true;
+      }
+      const style = getComputedStyle(el);
+      return style.display === "none" || style.visibility === "hidden";
+    };
+
+    const textLength = (el: Element): number =>
+      (el.textContent ?? "").replace(/\s+/g, " ").trim().length;
+
+    // Class and id names are only trusted for elements holding little of the
+    // content, since wrappers are named things like "content-with-sidebar"
+    const isFurniture = (el: Element, rootLength: number): boolean =>
+      FURNITURE_TAGS.has(el.tagName) ||
+      FURNITURE_ROLES.has(el.getAttribute("role") ?? "") ||
+      (FURNITURE_NAMES.test(`${el.id} ${el.getAttribute("class") ?? ""}`) &&
+        textLength(el) < rootLength / 2);
+
+    // Share of an element's text that is link text; high for menus and link lists
+    const linkDensity = (el: Element): number => {
+      const total = textLength(el);
+      if (total === 0) return 1;
+      const links = Array.from(el.querySelectorAll("a")).reduce(
+        (sum, a) => sum + textLength(a),
+        0
+      );
+      return links / total;
+    };
+
+    const describe = (el: Element): string =>
+      `${el.tagName.toLowerCase()}${el.id ? `#${el.id}` : ""}`;
+
+    // The element holding the main content: a unique <article>, <main>, or
+    // else the parent of the most paragraph text, Readability-style
+    const findRoot = (): Element => {
+      const articles = Array.from(document.querySelectorAll("article")).filter(
+        (el) => !isHidden(el) && textLength(el) > 500
+      );
+      if (articles.length === 1) return articles[0]!;
+      const main = document.querySelector("main, [role=main]");
+      if (main && !isHidden(main) && textLength(main) > 500) return main;
+
+      const scores = new Map<Element, number>();
+      for (const p of Array.from(document.querySelectorAll("p, pre, td, li"))) {
+        const length = textLength(p);
+        if (length < 25 || isHidden(p)) continue;
+        // Longer paragraphs and ones with commas look like prose
+        const score =
+          1 +
+          (p.textContent ?? "").split(",").length +
+          Math.min(length / 100, 3);
+        const parent = p.parentElement;
+        const grandparent = parent?.parentElement;
+        if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+        if (grandparent) {
+          scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+        }
+      }
+      let best: Element = document.body;
+      let bestScore = 0;
+      for (const [el, score] of scores) {
+        const adjusted = score * (1 - linkDensity(el));
+        if (adjusted > bestScore) {
+          best = el;
+          bestScore = adjusted;
+        }
+      }
+      return best;
+    };
+
+    const root = selector ? document.querySelector(selector) : findRoot();
+    if (!root) return undefined;
+    const rootLength = textLength(root);
+
+    const inline = (el: Element, depth: number): string =>
+      Array.from(el.childNodes)
+        .map((child) => convert(child, depth))
+        .join("");
+
+    const convertList = (el: Element, depth: number): string => {
+      let number = Number(el.getAttribute("start") ?? 1) || 1;
+      const lines: string[] = [];
+      for (const item of Array.from(el.children)) {
+        if (item.tagName !== "LI" || isHidden(item)) continue;
+        const marker = el.tagName === "OL" ? `${number++}.` : "-";
+        const [first = "", ...rest] = inline(item, depth + 1)
+          .replace(/\n{2,}/g, "\n")
+          .trim()
+          .split("\n");
+        lines.push(`${"  ".repeat(depth)}${marker} ${first.trim()}`);
+        // Nested lists come indented already; other lines continue the item
+        for (const line of rest) {
+          lines.push(
+            /^\s+(-|\d+\.) /.test(line)
+              ? line
+              : `${"  ".repeat(depth + 1)}${line.trim()}`
+          );
+        }
+      }
+      return depth === 0
+        ? `\n\n${lines.join("\n")}\n\n`
+        : `\n${lines.join("\n")}\n`;
+    };
+
+    const convertTable = (el: HTMLTableElement): string => {
+      const rows = Array.from(el.rows)
+        .filter((row) => !isHidden(row))
+        .map((row) =>
+          Array.from(row.cells).map((cell) =>
+            inline(cell, 0).replace(/\s+/g, " ").replace(/\|/g, "\\|").trim()
+          )
+        )
+        .filter((cells) => cells.some(Boolean));
+      const width = Math.max(0, ...rows.map((cells) => cells.length));
+      if (rows.length === 0) return "";
+      // A one-column table is layout, not data
+      if (width === 1) {
+        return `\n\n${rows.map((cells) => cells[0]).join("\n\n")}\n\n`;
+      }
+      const line = (cells: string[]) =>
+        `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(
+          " | "
+        )} |`;
+      const [header, ...body] = rows;
+      return `\n\n${[
+        line(header!),
+        line(Array.from({ length: width }, () => "---")),
+        ...body.map(line),
+      ].join("\n")}\n\n`;
+    };
+
+    const convert = (node: Node, depth: number): string => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        return (node.textContent ?? "").replace(/\s+/g, " ");
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return "";
+      const el = node as HTMLElement;
+      // SVG elements have lower-case tag names
+      const tag = el.tagName.toUpperCase();
+      if (SKIPPED.has(tag) || isHidden(el)) return "";
+      if (el !== root && isFurniture(el, rootLength)) return "";
+
+      switch (tag) {
+        case "H1":
+        case "H2":
+        case "H3":
+        case "H4":
+        case "H5":
+        case "H6": {
+          const text = inline(el, depth).replace(/\s+/g, " ").trim();
+          return text ? `\n\n${"#".repeat(Number(tag[1]))} ${text}\n\n` : "";
+        }
+        case "BR":
+          return "\n";
+        case "HR":
+          return "\n\n---\n\n";
+        case "A": {
+          const text = inline(el, depth).replace(/\s+/g, " ").trim();
+          const href = (el as HTMLAnchorElement).href;
+          if (!text) return "";
+          if (!href || href.startsWith("javascript:") || href === `${location.href}#`) {
+            return text;
+          }
+          return `[${text}](${href})`;
+        }
+        case "STRONG":
+        case "B": {
+          const text = inline(el, depth).trim();
+          return text ? `**${text}**` : "";
+        }
+        case "EM":
+        case "I": {
+          const text = inline(el, depth).trim();
+          return text ? `*${text}*` : "";
+        }
+        case "CODE":
+          return `\`${el.textContent ?? ""}\``;
+        case "PRE":
+          return `\n\n\`\`\`\n${(el.textContent ?? "").replace(/\n+$/, "")}\n\`\`\`\n\n`;
+        case "BLOCKQUOTE": {
+          const text = inline(el, depth).replace(/\n{3,}/g, "\n\n").trim();
+          return `\n\n${text
+            .split("\n")
+            .map((line) => `> ${line.trim()}`)
+            .join("\n")}\n\n`;
+        }
+        case "UL":
+        case "OL":
+          return convertList(el, depth);
+        case "TABLE":
+          return convertTable(el as HTMLTableElement);
+      }
+      // Other elements are paragraphs if they are laid out as blocks
+      const display = getComputedStyle(el).display;
+      const text = inline(el, depth);
+      return display.startsWith("inline") || display === "contents"
+        ? text
+        : `\n\n${text}\n\n`;
+    };
+
+    // Tidy up: no runs of blank lines, no stray spaces at line starts
+    // except for list indentation and inside code blocks
+    let inCode = false;
+    const markdown = convert(root, 0)
+      .split("\n")
+      .map((line) => {
+        if (line.trim().startsWith("```")) {
+          inCode = !inCode;
+          return line.trim();
+        }
+        if (inCode) return line;
+        return /^\s+(-|\d+\.) /.test(line) ? line.trimEnd() : line.trim();
+      })
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+
+    return { title: document.title, source: describe(root), markdown };
+  }, selector);
+}
+
+/**
+ * Split Markdown into chunks of at most `size` characters, between blocks
+ * where possible and preferably before a heading, so a chunk reads as a
+ * section.
+ */
+export function chunkMarkdown(markdown: string, size = CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const block of markdown.split(/\n{2,}/)) {
+    const joined = current ? `${current}\n\n${block}` : block;
+    const startsSection = /^#{1,3} /.test(block) && current.length > size / 2;
+    if (joined.length <= size && !startsSection) {
+      current = joined;
+    } else if (block.length <= size && current) {
+      chunks.push(current);
+      current = block;
+    } else {
+      // Too long for a chunk of its own: fill up the current chunk with it,
+      // so a heading isn't left on its own
+      const parts = splitLongBlock(joined, size);
+      chunks.push(...parts.slice(0, -1));
+      current = parts[parts.length - 1] ?? "";
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks.length > 0 ? chunks : [""];
+}
+
+// Split text longer than a chunk at line breaks, or at a space if a line is
+// too long
+function splitLongBlock(text: string, size: number): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (const line of text.split("\n")) {
+    let rest = line;
+    for (;;) {
+      const room = current ? size - current.length - 1 : size;
+      if (rest.length <= room) {
+        current = current ? `${current}\n${rest}` : rest;
+        break;
+      }
+      if (rest.length > size && room > size / 4) {
+        // Only a piece fits; break it off at the last space that fits
+        const space = rest.lastIndexOf(" ", room);
+        const cut = space > room / 2 ? space + 1 : room;
+        const piece = rest.slice(0, cut);
+        parts.push(current ? `${current}\n${piece}` : piece);
+        rest = rest.slice(cut);
+      } else {
+        parts.push(current);
+      }
+      current = "";
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/** The headings (levels 1-3) in a chunk, for an outline of the document. */
+export function chunkHeadings(chunk: string): string[] {
+  return Array.from(chunk.matchAll(/^#{1,3} (.+)$/gm), (match) => match[1]!);
+}
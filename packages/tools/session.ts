@@ -0,0 +1,574 @@
+import { mkdir } from "node:fs/promises";
+import { resolve } from "node:path";
+import type {
+  Browser,
+  BrowserContext,
+  Dialog,
+  Download,
+  Page,
+  Route,
+} from "playwright";
+import type { LabeledElement } from "./elements.ts";
+import { defaultGeometry, type Geometry } from "./geometry.ts";
+import {
+  checksHosts,
+  checkUrl,
+  navigationPolicySchema,
+  type NavigationPolicy,
+  type NavigationPolicyInput,
+  type PolicyDecision,
+} from "./policy.ts";
+import {
+  defaultSettleSettings,
+  trackRequests,
+  type SettleSettings,
+} from "./settle.ts";
+import { mimeTypeOf, saveDownload, type DownloadInfo } from "./workspace.ts";
+
+export interface ScreenshotSettings {
+  // JPEG quality (1-100)
+  quality: number;
+  // Dim everything but the labeled elements on labeled screenshots
+  highContrast: boolean;
+  // Save every screenshot to fixed paths in /tmp for debugging; off by
+  // default, since sessions running side by side would overwrite each other's
+  debug: boolean;
+}
+
+export interface TabInfo {
+  // Stable for the lifetime of the tab, never reused within a session
+  id: number;
+  title: string;
+  url: string;
+  active: boolean;
+}
+
+export interface NavigationEntry {
+  url: string;
+  // Filled in once the page has loaded
+  title: string;
+  timestamp: number;
+}
+
+// A tab's back/forward list as far as the session has followed it
+interface TabHistory {
+  urls: string[];
+  // The current entry
+  index: number;
+  // Set while a goBack/goForward started by a tool waits for its navigation
+  traversal?: -1 | 1;
+}
+
+/**
+ * What happens to alert, confirm, prompt and beforeunload dialogs: answered
+ * automatically, or left open for the model to answer with respondToDialog.
+ */
+export type DialogPolicy = "ask" | "accept" | "dismiss";
+
+export interface DialogInfo {
+  type: "alert" | "confirm" | "prompt" | "beforeunload";
+  message: string;
+  // Prefilled text of a prompt dialog
+  defaultValue?: string;
+  tabId: number;
+  // Unset while the dialog waits for an answer
+  outcome?: "accepted" | "dismissed";
+}
+
+export interface BrowserSessionOptions {
+  // Viewport, model image size, padding and device scale factor
+  geometry?: Geometry;
+  screenshot?: Partial<ScreenshotSettings>;
+  // How long tools wait for the page to settle after acting on it
+  settle?: Partial<SettleSettings>;
+  // Directory uploads are picked from and downloads are saved to. Without
+  // one, uploads are refused and downloads are discarded.
+  workspace?: string;
+  // Default: "ask"
+  dialogs?: DialogPolicy;
+  // Which URLs may be opened and which elements acted on; by default only
+  // browser-internal schemes such as file: and chrome: are blocked
+  policy?: NavigationPolicyInput;
+}
+
+const defaultScreenshotSettings: ScreenshotSettings = {
+  quality: 80,
+  highContrast: false,
+  debug: false,
+};
+
+let nextSessionId = 1;
+
+// How long a tool result waits for a download to finish before reporting it later
+const DOWNLOAD_WAIT = 30_000;
+
+// How long answering a dialog waits for the action it interrupted to finish
+const INTERRUPTED_ACTION_WAIT = 10_000;
+
+/**
+ * One agent's view of the browser: its own browser context (cookies, storage),
+ * the tabs in it, the active page and the labels from the latest labeled
+ * screenshot. Every tool operates on a session, so several agents can share a
+ * browser process without seeing each other's pages or labels.
+ */
+export class BrowserSession {
+  readonly id: string;
+  readonly screenshotSettings: ScreenshotSettings;
+  readonly settleSettings: SettleSettings;
+  readonly geometry: Geometry;
+  // Absolute path of the workspace directory, if there is one
+  readonly workspace: string | undefined;
+  readonly dialogPolicy: DialogPolicy;
+  readonly policy: NavigationPolicy;
+  private activePage: Page;
+  private detectedElements: LabeledElement[] = [];
+  private readonly tabIds = new WeakMap<Page, number>();
+  private readonly timelines = new WeakMap<Page, NavigationEntry[]>();
+  private readonly histories = new WeakMap<Page, TabHistory>();
+  private nextTabId = 1;
+  // Tabs opened by the page (popups, target=_blank links) that haven't been reported yet
+  private unreportedTabs: Page[] = [];
+  // Downloads started since they were last reported, saved once they finish
+  private unreportedDownloads: Promise<DownloadInfo>[] = [];
+  // Whether the page opened a file chooser nobody answered
+  private fileChooserOpened = false;
+  // The dialog waiting for the model's answer; it blocks its page until answered
+  private pendingDialog: { dialog: Dialog; info: DialogInfo } | undefined;
+  // Dialogs answered by the policy that haven't been reported yet
+  private unreportedDialogs: DialogInfo[] = [];
+  // Settles when the next dialog that waits for an answer opens
+  private dialogOpened!: Promise<DialogInfo>;
+  private signalDialog!: (info: DialogInfo) => void;
+  // The tool call a dialog interrupted, which resumes once it is answered
+  private interruptedAction: Promise<unknown> | undefined;
+  // Policy decisions made since they were last reported
+  private unreportedDecisions: PolicyDecision[] = [];
+
+  private constructor(
+    readonly context: BrowserContext,
+    page: Page,
+    screenshotSettings: ScreenshotSettings,
+    settleSettings: SettleSettings,
+    geometry: Geometry,
+    workspace: string | undefined,
+    dialogPolicy: DialogPolicy,
+    policy: NavigationPolicy
+  ) {
+    this.id = `session-${nextSessionId++}`;
+    this.activePage = page;
+    this.screenshotSettings = screenshotSettings;
+    this.settleSettings = settleSettings;
+    this.geometry = geometry;
+    this.workspace = workspace;
+    this.dialogPolicy = dialogPolicy;
+    this.policy = policy;
+    this.resetDialogSignal();
+    this.registerTab(page);
+
+    context.on("page", (newPage) => {
+      if (this.tabIds.has(newPage)) return;
+      this.registerTab(newPage);
+      this.unreportedTabs.push(newPage);
+    });
+  }
+
+  private registerTab(page: Page): void {
+    this.tabIds.set(page, this.nextTabId++);
+    trackRequests(page);
+
+    // Record every top-level navigation (including back/forward) in the tab's timeline
+    const timeline: NavigationEntry[] = [];
+    this.timelines.set(page, timeline);
+    const history: TabHistory = { urls: [page.url()], index: 0 };
+    this.histories.set(page, history);
+    page.on("framenavigated", (frame) => {
+      if (frame !== page.mainFrame()) return;
+      // A traversal moves along the list; anything else replaces the entries
+      // after the current one, unless it only reloaded or replaced its URL
+      if (history.traversal) {
+        history.index = Math.max(0, history.index + history.traversal);
+        history.urls[history.index] = frame.url();
+        history.traversal = undefined;
+      } else if (history.urls[history.index] !== frame.url()) {
+        history.urls.splice(++history.index, Infinity, frame.url());
+      }
+      const last = timeline.at(-1);
+      if (last?.url === frame.url()) return;
+      timeline.push({ url: frame.url(), title: "", timestamp: Date.now() });
+    });
+    page.on("load", async () => {
+      const last = timeline.at(-1);
+      if (last) last.title = await page.title().catch(() => "");
+    });
+
+    page.on("download", (download) => {
+      this.unreportedDownloads.push(this.keepDownload(download));
+    });
+    // Listening keeps Playwright from showing the native dialog, which would
+    // stall the agent; uploadFileByLabel answers choosers itself
+    page.on("filechooser", () => {
+      this.fileChooserOpened = true;
+    });
+    // Without a listener Playwright dismisses every dialog unseen
+    page.on("dialog", (dialog) => this.handleDialog(page, dialog));
+
+    page.on("close", () => {
+      this.unreportedTabs = this.unreportedTabs.filter((p) => p !== page);
+      if (this.pendingDialog?.dialog.page() === page) {
+        this.pendingDialog = undefined;
+      }
+      // If the active tab closed itself, fall back to the most recent remaining tab
+      const fallback = this.pages.filter((p) => p !== page).at(-1);
+      if (page === this.activePage && fallback) {
+        this.activePage = fallback;
+        this.detectedElements = [];
+      }
+    });
+  }
+
+  /**
+   * Open a new isolated session (a fresh browser context with one tab).
+   */
+  static async create(
+    browser: Browser,
+    options: BrowserSessionOptions = {}
+  ): Promise<BrowserSession> {
+    const geometry = options.geometry ?? defaultGeometry;
+    const workspace = options.workspace && resolve(options.workspace);
+    if (workspace) await mkdir(workspace, { recursive: true });
+    const context = await browser.newContext({
+      viewport: geometry.viewport,
+      deviceScaleFactor: geometry.deviceScaleFactor,
+      acceptDownloads: true,
+    });
+    const page = await context.newPage();
+    const policy = navigationPolicySchema.parse(options.policy ?? {});
+    const session = new BrowserSession(
+      context,
+      page,
+      { ...defaultScreenshotSettings, ...options.screenshot },
+      { ...defaultSettleSettings, ...options.settle },
+      geometry,
+      workspace,
+      options.dialogs ?? "ask",
+      policy
+    );
+    // Schemes are checked on the final URL; hosts need every request checked
+    if (checksHosts(policy)) {
+      await context.route("**/*", (route) => session.guardNavigation(route));
+    }
+    return session;
+  }
+
+  /**
+   * Check a navigation request (in any frame) against the policy. Redirects
+   * are followed one hop at a time, so every target is checked before the
+   * browser goes there.
+   */
+  private async guardNavigation(route: Route): Promise<void> {
+    const request = route.request();
+    if (!request.isNavigationRequest()) return route.fallback();
+    // A redirect's target was checked when the redirect came in
+    const redirected = request.redirectedFrom() !== null;
+    const decision = checkUrl(
+      this.policy,
+      request.url(),
+      redirected ? "redirect" : "navigate"
+    );
+    if (!redirected || !decision.allowed) this.logPolicyDecision(decision);
+    if (!decision.allowed) return route.abort("blockedbyclient");
+
+    const response = await route.fetch({ maxRedirects: 0 }).catch(() => undefined);
+    if (!response) return route.abort("failed");
+    const location = response.headers()["location"];
+    if (response.status() >= 300 && response.status() < 400 && location) {
+      const redirect = checkUrl(
+        this.policy,
+        new URL(location, request.url()).href,
+        "redirect"
+      );
+      this.logPolicyDecision(redirect);
+      if (!redirect.allowed) return route.abort("blockedbyclient");
+    }
+    await route.fulfill({ response });
+  }
+
+  /** Add a policy decision to the log; the next tool result reports it. */
+  logPolicyDecision(decision: PolicyDecision): void {
+    this.unreportedDecisions.push(decision);
+  }
+
+  /** Policy decisions made since the last call. */
+  takePolicyDecisions(): PolicyDecision[] {
+    const decisions = this.unreportedDecisions;
+    this.unreportedDecisions = [];
+    return decisions;
+  }
+
+  /**
+   * Take the active tab off a page the policy refuses, which can be reached
+   * without a request the policy sees (file: URLs, browser pages), or off the
+   * error page a refused navigation leaves behind. Returns whether it left.
+   */
+  async leaveRefusedPage(): Promise<boolean> {
+    const page = this.activePage;
+    const url = page.url();
+    if (url.startsWith("chrome-error:")) {
+      if (!this.unreportedDecisions.some((decision) => !decision.allowed)) {
+        return false;
+      }
+      await page.goBack().catch(() => {});
+      return true;
+    }
+    const decision = checkUrl(this.policy, url);
+    if (decision.allowed) return false;
+    this.logPolicyDecision(decision);
+    await page.goto("about:blank").catch(() => {});
+    return true;
+  }
+
+  private resetDialogSignal(): void {
+    this.dialogOpened = new Promise((resolve) => {
+      this.signalDialog = resolve;
+    });
+  }
+
+  // Answer a dialog by the policy, or hold it for the model
+  private async handleDialog(page: Page, dialog: Dialog): Promise<void> {
+    const info: DialogInfo = {
+      type: dialog.type() as DialogInfo["type"],
+      message: dialog.message(),
+      ...(dialog.type() === "prompt" && { defaultValue: dialog.defaultValue() }),
+      tabId: this.tabId(page),
+    };
+    if (this.dialogPolicy === "ask") {
+      this.pendingDialog = { dialog, info };
+      this.signalDialog(info);
+      this.resetDialogSignal();
+      return;
+    }
+    if (this.dialogPolicy === "accept") {
+      await dialog.accept().catch(() => {});
+      info.outcome = "accepted";
+    } else {
+      await dialog.dismiss().catch(() => {});
+      info.outcome = "dismissed";
+    }
+    this.unreportedDialogs.push(info);
+  }
+
+  /** The dialog waiting for the model's answer, if any. */
+  get openDialog(): DialogInfo | undefined {
+    return this.pendingDialog?.info;
+  }
+
+  /**
+   * Resolves when a dialog opens that waits for the model's answer. Tools race
+   * this against their action, which can't finish while the dialog is open.
+   */
+  waitForDialog(): Promise<DialogInfo> {
+    return this.dialogOpened;
+  }
+
+  /** Remember the tool call a dialog interrupted, to finish it once answered. */
+  setInterruptedAction(action: Promise<unknown>): void {
+    this.interruptedAction = action.catch(() => {});
+  }
+
+  /**
+   * Answer the open dialog, then give the action it interrupted up to 10s to
+   * finish, so the page is settled when it is looked at again.
+   */
+  async answerDialog(accept: boolean, promptText?: string): Promise<DialogInfo> {
+    const pending = this.pendingDialog;
+    if (!pending) {
+      throw new Error("No dialog is open");
+    }
+    this.pendingDialog = undefined;
+    if (accept) {
+      await pending.dialog.accept(promptText);
+    } else {
+      await pending.dialog.dismiss();
+    }
+    const info: DialogInfo = {
+      ...pending.info,
+      outcome: accept ? "accepted" : "dismissed",
+    };
+
+    const action = this.interruptedAction;
+    this.interruptedAction = undefined;
+    if (action) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await Promise.race([
+        action,
+        this.dialogOpened,
+        new Promise((done) => {
+          timer = setTimeout(done, INTERRUPTED_ACTION_WAIT);
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+    return info;
+  }
+
+  /** Dialogs the policy answered since the last call. */
+  takeDialogs(): DialogInfo[] {
+    const dialogs = this.unreportedDialogs;
+    this.unreportedDialogs = [];
+    return dialogs;
+  }
+
+  // Save a download into the workspace, or cancel it if there is none
+  private async keepDownload(download: Download): Promise<DownloadInfo> {
+    const failed = (error: string): DownloadInfo => ({
+      suggestedFilename: download.suggestedFilename(),
+      url: download.url(),
+      mimeType: mimeTypeOf(download.suggestedFilename()),
+      error,
+    });
+    if (!this.workspace) {
+      await download.cancel();
+      return failed("no workspace directory is configured, so it was discarded");
+    }
+    return saveDownload(this.workspace, download).catch((error) =>
+      failed(error instanceof Error ? error.message : String(error))
+    );
+  }
+
+  /** The page tools act on. */
+  get page(): Page {
+    return this.activePage;
+  }
+
+  /** All open tabs in this session. */
+  get pages(): Page[] {
+    return this.context.pages();
+  }
+
+  /**
+   * Make another tab of this session the active one. Labels from the previous
+   * tab no longer apply, so they are cleared.
+   */
+  async setActivePage(page: Page): Promise<void> {
+    if (page.context() !== this.context) {
+      throw new Error("Page does not belong to this session");
+    }
+    if (page !== this.activePage) {
+      this.activePage = page;
+      this.detectedElements = [];
+    }
+    await page.bringToFront();
+  }
+
+  /** Stable ID of a tab in this session. */
+  tabId(page: Page): number {
+    const id = this.tabIds.get(page);
+    if (id === undefined) {
+      throw new Error("Page does not belong to this session");
+    }
+    return id;
+  }
+
+  getTab(id: number): Page | undefined {
+    return this.pages.find((page) => this.tabIds.get(page) === id);
+  }
+
+  async listTabs(): Promise<TabInfo[]> {
+    return Promise.all(
+      this.pages.map(async (page) => ({
+        id: this.tabId(page),
+        title: await page.title().catch(() => ""),
+        url: page.url(),
+        active: page === this.activePage,
+      }))
+    );
+  }
+
+  /** Every page this tab has visited, oldest first. */
+  navigationTimeline(page: Page): NavigationEntry[] {
+    return [...(this.timelines.get(page) ?? [])];
+  }
+
+  /**
+   * Where the tab is in its back/forward history: the URLs of its entries and
+   * the index of the current one.
+   */
+  historyOf(page: Page): { urls: string[]; index: number } {
+    const history = this.histories.get(page);
+    return { urls: [...(history?.urls ?? [])], index: history?.index ?? -1 };
+  }
+
+  /**
+   * Mark the tab's next navigation as a step back or forward in its history,
+   * or clear the mark when the step led nowhere.
+   */
+  expectTraversal(page: Page, direction: "back" | "forward" | undefined): void {
+    const history = this.histories.get(page);
+    if (!history) return;
+    history.traversal =
+      direction === "back" ? -1 : direction === "forward" ? 1 : undefined;
+  }
+
+  /**
+   * Open a new tab. It is not reported as a popup since the agent asked for it.
+   */
+  async openTab(): Promise<Page> {
+    const page = await this.context.newPage();
+    if (!this.tabIds.has(page)) this.registerTab(page);
+    this.unreportedTabs = this.unreportedTabs.filter((p) => p !== page);
+    return page;
+  }
+
+  /**
+   * Tabs opened by the page since the last call, e.g. popups and target=_blank links.
+   */
+  takeNewTabs(): Page[] {
+    const tabs = this.unreportedTabs.filter((page) => !page.isClosed());
+    this.unreportedTabs = [];
+    return tabs;
+  }
+
+  /**
+   * Downloads started since the last call, once saved. Waits up to 30s for
+   * them to finish; ones still running are reported by a later call.
+   */
+  async takeDownloads(): Promise<DownloadInfo[]> {
+    const pending = this.unreportedDownloads;
+    this.unreportedDownloads = [];
+    if (pending.length === 0) return [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<undefined>((done) => {
+      timer = setTimeout(done, DOWNLOAD_WAIT, undefined);
+    });
+    const results = await Promise.all(
+      pending.map((download) => Promise.race([download, timeout]))
+    );
+    clearTimeout(timer);
+    const finished: DownloadInfo[] = [];
+    results.forEach((result, index) => {
+      if (result) finished.push(result);
+      else this.unreportedDownloads.push(pending[index]!);
+    });
+    return finished;
+  }
+
+  /** Whether the page opened a file chooser since the last call. */
+  takeFileChooser(): boolean {
+    const opened = this.fileChooserOpened;
+    this.fileChooserOpened = false;
+    return opened;
+  }
+
+  /** Elements from the latest detection (labeled screenshot or listElements), used by clickByLabel. */
+  get lastDetectedElements(): LabeledElement[] {
+    return this.detectedElements;
+  }
+
+  setDetectedElements(elements: LabeledElement[]): void {
+    this.detectedElements = elements;
+  }
+
+  async close(): Promise<void> {
+    await this.context.close();
+  }
+}
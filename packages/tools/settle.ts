@@ -0,0 +1,148 @@
+import type { Page, Request } from "playwright";
+
+export interface SettleSettings {
+  // Longest time to wait for the page to settle after an action, in ms
+  budget: number;
+  // How long the DOM has to stay unchanged to count as quiet, in ms
+  quietWindow: number;
+}
+
+export const defaultSettleSettings: SettleSettings = {
+  budget: 5000,
+  quietWindow: 300,
+};
+
+export interface SettleResult {
+  // What ended the wait: the page going quiet, or the budget running out
+  endedBy: "quiet" | "budget";
+  waitedMs: number;
+  // What was still busy when the budget ran out, e.g. "2 requests"
+  busy: string[];
+}
+
+// How often the page is checked while waiting
+const POLL_INTERVAL = 100;
+
+// Requests that keep a page from being settled; images, media and beacons don't
+const TRACKED_RESOURCES = new Set([
+  "document",
+  "fetch",
+  "xhr",
+  "script",
+  "stylesheet",
+  "font",
+]);
+
+const pendingRequests = new WeakMap<Page, Set<Request>>();
+
+/**
+ * Count the page's in-flight document, fetch/XHR, script, stylesheet and font
+ * requests from now on. Called once per tab, as soon as it exists.
+ */
+export function trackRequests(page: Page): void {
+  const pending = new Set<Request>();
+  pendingRequests.set(page, pending);
+  page.on("request", (request) => {
+    if (TRACKED_RESOURCES.has(request.resourceType())) pending.add(request);
+  });
+  page.on("requestfinished", (request) => pending.delete(request));
+  page.on("requestfailed", (request) => pending.delete(request));
+}
+
+interface PageActivity {
+  readyState: DocumentReadyState;
+  // Milliseconds since the DOM last changed
+  quietFor: number;
+  animations: number;
+  fontsLoading: boolean;
+}
+
+/**
+ * Read what the page is doing. The first call installs a mutation observer,
+ * so the DOM counts as just changed until it has been watched for a while.
+ */
+async function readActivity(page: Page): Promise<PageActivity> {
+  return page.evaluate(() => {
+    const state = window as unknown as { __settleLastMutation?: number };
+    if (state.__settleLastMutation === undefined) {
+      state.__settleLastMutation = performance.now();
+      new MutationObserver(() => {
+        state.__settleLastMutation = performance.now();
+      }).observe(document, {
+        subtree: true,
+        childList: true,
+        attributes: true,
+        characterData: true,
+      });
+    }
+    // Endless animations (spinners, carousels) would never let the page settle
+    const animations = document.getAnimations().filter((animation) => {
+      const end = animation.effect?.getComputedTiming().endTime;
+      return (
+        animation.playState === "running" &&
+        typeof end === "number" &&
+        Number.isFinite(end)
+      );
+    }).length;
+    return {
+      readyState: document.readyState,
+      quietFor: performance.now() - state.__settleLastMutation,
+      animations,
+      fontsLoading: document.fonts.status === "loading",
+    };
+  });
+}
+
+/**
+ * Wait until the page has settled after an action: the navigation (if any)
+ * has committed and parsed, no tracked requests are in flight, the DOM has
+ * been quiet for the quiet window, finite animations have finished and web
+ * fonts have loaded. Gives up when the budget runs out and says what was
+ * still busy.
+ */
+export async function settle(
+  page: Page,
+  settings: SettleSettings = defaultSettleSettings
+): Promise<SettleResult> {
+  const start = Date.now();
+  let busy: string[] = [];
+  while (Date.now() - start < settings.budget) {
+    busy = [];
+    const requests = pendingRequests.get(page)?.size ?? 0;
+    if (requests > 0) {
+      busy.push(`${requests} request${requests === 1 ? "" : "s"}`);
+    }
+    try {
+      const activity = await readActivity(page);
+      if (activity.readyState === "loading") busy.push("page loading");
+      if (activity.quietFor < settings.quietWindow) busy.push("DOM changing");
+      if (activity.animations > 0) busy.push("animations");
+      if (activity.fontsLoading) busy.push("fonts");
+    } catch {
+      // The context is replaced while a navigation commits
+      busy.push("navigation");
+    }
+    if (busy.length === 0) {
+      return { endedBy: "quiet", waitedMs: Date.now() - start, busy };
+    }
+    // A page that closed itself has nothing left to wait for
+    if (page.isClosed()) break;
+    await page.waitForTimeout(POLL_INTERVAL).catch(() => {});
+  }
+  if (page.isClosed()) {
+    return { endedBy: "quiet", waitedMs: Date.now() - start, busy: [] };
+  }
+  return { endedBy: "budget", waitedMs: Date.now() - start, busy };
+}
+
+/**
+ * One sentence for a tool result, e.g. "Page settled after 420ms." or "Page
+ * still busy after 5000ms (2 requests, DOM changing)."
+ */
+export function describeSettle(result: SettleResult): string {
+  if (result.endedBy === "quiet") {
+    return `Page settled after ${result.waitedMs}ms.`;
+  }
+  const busy = result.busy.length > 0 ? ` (${result.busy.join(", ")})` : "";
+  return `Page still busy after ${result.waitedMs}ms${busy}; it may be only partly loaded.`;
+}
@@ -0,0 +1,332 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  realpath,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import {
+  basename,
+  extname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
+import type { Download } from "playwright";
+
+/**
+ * The workspace is the one directory the agent's files go in and out of:
+ * uploads are picked from it and downloads are saved to its downloads/
+ * folder. Paths the model gives are relative to it and can't leave it.
+ */
+
+// Where downloads are saved, relative to the workspace
+export const DOWNLOADS_DIR = "downloads";
+
+// Where exported tables are saved, relative to the workspace
+export const EXPORTS_DIR = "exports";
+
+// How much of a file readDownloadedFile returns at a time
+export const MAX_FILE_CHARS = 20_000;
+
+export interface DownloadInfo {
+  // Relative to the workspace, e.g. "downloads/report.csv"; unset if nothing was saved
+  path?: string;
+  // The name the site gave the file
+  suggestedFilename: string;
+  url: string;
+  size?: number;
+  mimeType: string;
+  // Why the download failed
+  error?: string;
+}
+
+export interface WorkspaceFileContents {
+  // Relative to the workspace
+  path: string;
+  size: number;
+  mimeType: string;
+  format: "text" | "csv" | "json" | "binary";
+  // e.g. "CSV with 120 rows, columns: date, amount"
+  summary: string;
+  // The formatted contents from offset on, at most MAX_FILE_CHARS long;
+  // empty for binary files
+  content: string;
+  offset: number;
+  // Length of the whole formatted contents
+  total: number;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".ics": "text/calendar",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx":
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/** MIME type from the file extension. */
+export function mimeTypeOf(filename: string): string {
+  return (
+    MIME_TYPES[extname(filename).toLowerCase()] ?? "application/octet-stream"
+  );
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return (
+    rel !== "" &&
+    rel !== ".." &&
+    !rel.startsWith(`..${sep}`) &&
+    !isAbsolute(rel)
+  );
+}
+
+/**
+ * Resolve a path the model gave to an existing file in the workspace. Throws if
+ * there is no such file or the path leads outside the workspace, including
+ * through a symlink.
+ */
+export async function resolveWorkspaceFile(
+  root: string,
+  path: string
+): Promise<string> {
+  const realRoot = await realpath(root);
+  const file = await realpath(resolve(realRoot, path)).catch(() => undefined);
+  if (!file) {
+    throw new Error(`There is no file "${path}" in the workspace`);
+  }
+  if (!isInside(realRoot, file)) {
+    throw new Error(`"${path}" is outside the workspace`);
+  }
+  if (!(await stat(file)).isFile()) {
+    throw new Error(`"${path}" is not a file`);
+  }
+  return file;
+}
+
+/** Files in the workspace, relative to it, for telling the model what it can use. */
+export async function listWorkspaceFiles(
+  root: string,
+  limit = 50
+): Promise<string[]> {
+  const entries = await readdir(root, {
+    recursive: true,
+    withFileTypes: true,
+  }).catch(() => []);
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => relative(root, join(entry.parentPath, entry.name)))
+    .sort()
+    .slice(0, limit);
+}
+
+// A name that is safe to save under, in the given folder, not taken yet
+async function freeTarget(
+  root: string,
+  folder: string,
+  suggested: string
+): Promise<string> {
+  const dir = join(root, folder);
+  await mkdir(dir, { recursive: true });
+  const name =
+    basename(suggested)
+      .replace(/[^\w.\- ]/g, "_")
+      .replace(/^\.+/, "") || "download";
+  const ext = extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+  for (let copy = 0; ; copy++) {
+    const candidate = join(dir, copy === 0 ? name : `${stem} (${copy})${ext}`);
+    if (!(await stat(candidate).catch(() => undefined))) return candidate;
+  }
+}
+
+/**
+ * Wait for a download to finish and save it into the workspace's downloads
+ * folder, keeping the site's file name unless a file already has it.
+ */
+export async function saveDownload(
+  root: string,
+  download: Download
+): Promise<DownloadInfo> {
+  const suggestedFilename = download.suggestedFilename();
+  const info = {
+    suggestedFilename,
+    url: download.url(),
+    mimeType: mimeTypeOf(suggestedFilename),
+  };
+  const failure = await download.failure();
+  if (failure) {
+    return { ...info, error: failure };
+  }
+  const target = await freeTarget(root, DOWNLOADS_DIR, suggestedFilename);
+  await download.saveAs(target);
+  const { size } = await stat(target);
+  return { ...info, path: relative(root, target), size };
+}
+
+/**
+ * Save contents the agent produced in a folder of the workspace, under the
+ * given name unless a file already has it. Returns the path relative to the
+ * workspace.
+ */
+export async function saveWorkspaceFile(
+  root: string,
+  folder: string,
+  name: string,
+  contents: string
+): Promise<string> {
+  const target = await freeTarget(root, folder, name);
+  await writeFile(target, contents);
+  return relative(root, target);
+}
+
+/**
+ * Parse CSV (or TSV with a tab delimiter) into rows of fields, following
+ * RFC 4180 quoting.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Write rows as CSV, quoting fields that need it (RFC 4180). */
+export function formatCsv(rows: string[][]): string {
+  const field = (value: string) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return rows.map((row) => row.map(field).join(",")).join("\r\n") + "\r\n";
+}
+
+// Describe a JSON value's top level, e.g. "array of 20 items"
+function describeJson(value: unknown): string {
+  if (Array.isArray(value)) return `array of ${value.length} items`;
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value);
+    const shown = keys.slice(0, 10).join(", ");
+    return `object with keys ${shown}${keys.length > 10 ? ", ..." : ""}`;
+  }
+  return typeof value;
+}
+
+/**
+ * Read a workspace file for the model: CSV is summarized by its columns and
+ * row count, JSON is pretty-printed, and binary files are only described.
+ * Long contents are returned MAX_FILE_CHARS at a time from `offset`.
+ */
+export async function readWorkspaceFile(
+  root: string,
+  path: string,
+  offset = 0
+): Promise<WorkspaceFileContents> {
+  const file = await resolveWorkspaceFile(root, path);
+  const bytes = await readFile(file);
+  const base = {
+    path: relative(await realpath(root), file),
+    size: bytes.length,
+    mimeType: mimeTypeOf(file),
+  };
+
+  // Text files don't contain NUL bytes
+  if (bytes.subarray(0, 8000).includes(0)) {
+    return {
+      ...base,
+      format: "binary",
+      summary: `Binary file (${base.mimeType}), its contents can't be shown as text`,
+      content: "",
+      offset: 0,
+      total: 0,
+    };
+  }
+
+  let text = bytes.toString("utf8").replace(/^\uFEFF/, "");
+  let format: WorkspaceFileContents["format"] = "text";
+  let summary = `Text file (${base.mimeType})`;
+  const ext = extname(file).toLowerCase();
+  if (ext === ".csv" || ext === ".tsv") {
+    const rows = parseCsv(text, ext === ".tsv" ? "\t" : ",");
+    const [header = [], ...records] = rows;
+    format = "csv";
+    summary = `${ext.slice(1).toUpperCase()} with ${
+      records.length
+    } rows, columns: ${header.join(", ")}`;
+  } else if (ext === ".json" || base.mimeType === "application/json") {
+    try {
+      const value = JSON.parse(text);
+      text = JSON.stringify(value, null, 2);
+      format = "json";
+      summary = `JSON, ${describeJson(value)}`;
+    } catch {
+      summary = "Text file (not valid JSON)";
+    }
+  }
+
+  const start = Math.min(Math.max(0, offset), text.length);
+  return {
+    ...base,
+    format,
+    summary,
+    content: text.slice(start, start + MAX_FILE_CHARS),
+    offset: start,
+    total: text.length,
+  };
+}